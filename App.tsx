@@ -3,15 +3,37 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { HeroScene, SatelliteScene } from './components/QuantumScene';
-import { DatasetMap, ArchitectureDiagram, PerformanceChart } from './components/Diagrams';
+import { HeroScene } from './components/QuantumScene';
+import { DatasetMap, DatasetGlobe, ArchitectureDiagram, PerformanceChart } from './components/Diagrams';
+import { Leaderboard } from './components/Leaderboard';
 import { ChatBot } from './components/ChatBot';
-import { ArrowDown, Menu, X, Map, Zap, Layers, Satellite, Moon, Sun } from 'lucide-react';
+import { ThemeMenu } from './components/ThemeMenu';
+import { MaskComparison } from './components/MaskComparison';
+import { ModelPlayground } from './components/ModelPlayground';
+import { MetricCalculator } from './components/MetricCalculator';
+import { ArrowDown, Menu, X, Map, Globe, Zap, Layers, Satellite, SplitSquareHorizontal } from 'lucide-react';
+import { CONTENT, OUR_MODEL, formatBillions, formatCompact, formatCount, formatKilo, formatMeters } from './data/content';
+import { EMPTY_FILTER, filterLocations, isFilterActive, matchesFilter, summarizeLocations } from './data/locations';
+import { US_STATES } from './data/states';
+import { caseStudyUrls } from './data/assets';
+import { useLocationManifest } from './hooks/useLocationManifest';
+import { useTheme } from './hooks/useTheme';
+import { navigateToSection, scrollToSection as scrollToElement } from './lib/scroll';
+import { parseViewState } from './lib/urlState';
+import { useActiveSection } from './hooks/useActiveSection';
+import { useUrlSync } from './hooks/useUrlSync';
+import type { ToolHandlers } from './lib/chat/tools';
+import type { ArchitectureStep } from './data/sections';
+import type { ChartAxes } from './data/benchmarks';
+import type { LocationFilter, WaterClassId } from './types';
 
-const Reveal = ({ children, className = "", delay = 0 }: { children: React.ReactNode, className?: string, delay?: number }) => (
+const { paper, dataset, model, caseStudies, authors } = CONTENT;
+
+const Reveal = ({ children, className = "", delay = 0, id }: { children: React.ReactNode, className?: string, delay?: number, id?: string }) => (
   <motion.div
+    id={id}
     className={className}
     initial={{ opacity: 0, y: 30 }}
     whileInView={{ opacity: 1, y: 0 }}
@@ -38,10 +60,85 @@ const AuthorCard = ({ name, role, university, index }: { name: string, role: str
   );
 };
 
+const BASELINE_NAMES = CONTENT.benchmarks.models.filter(m => !m.isOurs).map(m => m.name);
+const BASELINE_LIST = BASELINE_NAMES.length > 1
+  ? `${BASELINE_NAMES.slice(0, -1).join(', ')} and ${BASELINE_NAMES[BASELINE_NAMES.length - 1]}`
+  : BASELINE_NAMES.join('');
+
+const NAV_LINKS = [
+  { id: 'intro', label: 'Overview', mobileLabel: 'Overview' },
+  { id: 'dataset', label: 'Dataset', mobileLabel: 'The Dataset' },
+  { id: 'model', label: `${model.name} Model`, mobileLabel: model.name },
+  { id: 'results', label: 'Results', mobileLabel: 'Results' },
+];
+
 const Website: React.FC = () => {
   const [scrolled, setScrolled] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
-  const [isDark, setIsDark] = useState(false);
+  const { preference: themePreference, setPreference: setThemePreference, theme, palette } = useTheme();
+  // A shared link's query string seeds the interactive state; useUrlSync keeps it current.
+  const [linked] = useState(() => parseViewState(window.location.search));
+  const [datasetFilter, setDatasetFilter] = useState<LocationFilter>(linked.filter);
+  const [datasetView, setDatasetView] = useState(linked.datasetView);
+  const [selectedLocation, setSelectedLocation] = useState<string | null>(linked.location);
+  const [chartAxes, setChartAxes] = useState<ChartAxes>(linked.axes);
+  const [maskOpacity, setMaskOpacity] = useState(linked.maskOpacity);
+  const [openComparison, setOpenComparison] = useState<string | null>(null);
+  const [highlightedModel, setHighlightedModel] = useState<string | null>(null);
+  const [architectureStep, setArchitectureStep] = useState<ArchitectureStep | null>(null);
+  const manifest = useLocationManifest();
+  const activeSection = useActiveSection();
+  // Case studies sit inside Results, which is what the nav shows.
+  const navSection = activeSection?.startsWith('case-') ? 'results' : activeSection;
+  const allLocations = manifest.status === 'ready' ? manifest.locations : null;
+
+  // Live counts for the dataset filters: each control counts matches given the *other* control's selection.
+  const filteredTotals = useMemo(
+    () => allLocations && summarizeLocations(filterLocations(allLocations, datasetFilter), datasetFilter.classes),
+    [allLocations, datasetFilter]
+  );
+  const classCounts = useMemo(() => {
+    const counts = {} as Record<WaterClassId, number>;
+    for (const c of dataset.classes) {
+      counts[c.id] = allLocations?.filter(l => matchesFilter(l, { classes: [c.id], state: datasetFilter.state })).length ?? 0;
+    }
+    return counts;
+  }, [allLocations, datasetFilter.state]);
+  const stateOptions = useMemo(() => {
+    if (!allLocations) return [];
+    const codes = [...new Set(allLocations.map(l => l.state))];
+    return codes
+      .map(code => ({
+        code,
+        name: US_STATES[code].name,
+        count: allLocations.filter(l => matchesFilter(l, { classes: datasetFilter.classes, state: code })).length,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [allLocations, datasetFilter.classes]);
+
+  const toggleClassFilter = (id: WaterClassId) =>
+    setDatasetFilter(f => ({
+      ...f,
+      classes: f.classes.includes(id) ? f.classes.filter(c => c !== id) : [...f.classes, id],
+    }));
+
+  const datasetStats = filteredTotals && isFilterActive(datasetFilter)
+    ? [
+        { label: 'Images', val: formatCount(filteredTotals.images) },
+        { label: 'Pixels', val: formatCompact(datasetFilter.classes.length ? filteredTotals.classPixels : filteredTotals.pixels) },
+        { label: 'Locations', val: String(filteredTotals.locations) },
+        { label: 'States', val: String(filteredTotals.states) },
+        { label: 'Classes', val: String(datasetFilter.classes.length || dataset.classes.length) },
+        { label: 'Resolution', val: formatMeters(dataset.resolutionM) },
+      ]
+    : [
+        { label: 'Images', val: formatCount(dataset.images) },
+        { label: 'Pixels', val: formatCompact(dataset.labeledPixels) },
+        { label: 'Locations', val: String(dataset.locations) },
+        { label: 'States', val: String(dataset.states) },
+        { label: 'Classes', val: String(dataset.classes.length) },
+        { label: 'Resolution', val: formatMeters(dataset.resolutionM) },
+      ];
 
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 50);
@@ -49,33 +146,38 @@ const Website: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  // Dark Mode Toggle Logic
-  useEffect(() => {
-    if (isDark) {
-      document.documentElement.classList.add('dark');
-    } else {
-      document.documentElement.classList.remove('dark');
-    }
-  }, [isDark]);
+  useUrlSync({ datasetView, filter: datasetFilter, location: selectedLocation, axes: chartAxes, maskOpacity });
 
   const scrollToSection = (id: string) => (e: React.MouseEvent) => {
     e.preventDefault();
     setMenuOpen(false);
-    const element = document.getElementById(id);
-    if (element) {
-      const headerOffset = 100;
-      const elementPosition = element.getBoundingClientRect().top;
-      const offsetPosition = elementPosition + window.pageYOffset - headerOffset;
-
-      window.scrollTo({
-        top: offsetPosition,
-        behavior: "smooth"
-      });
-    }
+    navigateToSection(id);
+  };
+
+  // What the assistant may do to the page. Arguments arrive already checked
+  // against the whitelist in lib/chat/tools.
+  const toolHandlers: ToolHandlers = {
+    scroll_to_section: ({ section }) => scrollToElement(section),
+    highlight_model: ({ model }) => {
+      setHighlightedModel(model);
+      scrollToElement('results');
+    },
+    focus_map: ({ state, waterClass }) => {
+      setDatasetFilter({ classes: waterClass ? [waterClass] : [], state: state ?? null });
+      scrollToElement('dataset');
+    },
+    open_case_study: ({ caseStudy }) => {
+      setOpenComparison(caseStudy);
+      scrollToElement(`case-${caseStudy}`);
+    },
+    show_architecture_step: ({ step }) => {
+      setArchitectureStep(step);
+      scrollToElement('model');
+    },
   };
 
   return (
-    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-slate-200 selection:bg-ocean selection:text-white transition-colors duration-300">
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-slate-200 selection:bg-ocean selection:text-ocean-fg transition-colors duration-300">
       
       {/* Navigation */}
       <nav className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${scrolled ? 'bg-white/90 dark:bg-slate-900/90 backdrop-blur-md shadow-sm py-4' : 'bg-transparent py-6'}`}>
@@ -85,28 +187,29 @@ const Website: React.FC = () => {
               <Satellite size={20} className="text-white" />
             </div>
             <span className={`font-serif font-bold text-xl tracking-tight transition-colors ${scrolled ? 'text-slate-900 dark:text-white' : 'text-slate-900 dark:text-white'}`}>
-              USS-WATER <span className="font-sans font-light text-slate-500 dark:text-slate-400 text-sm ml-1">2024</span>
+              {paper.shortTitle.toUpperCase()} <span className="font-sans font-light text-slate-500 dark:text-slate-400 text-sm ml-1">{paper.year}</span>
             </span>
           </div>
           
           <div className="hidden md:flex items-center gap-8 text-sm font-medium tracking-wide text-slate-600 dark:text-slate-300">
-            <a href="#intro" onClick={scrollToSection('intro')} className="hover:text-ocean dark:hover:text-ocean transition-colors uppercase">Overview</a>
-            <a href="#dataset" onClick={scrollToSection('dataset')} className="hover:text-ocean dark:hover:text-ocean transition-colors uppercase">Dataset</a>
-            <a href="#model" onClick={scrollToSection('model')} className="hover:text-ocean dark:hover:text-ocean transition-colors uppercase">U-Net+ Model</a>
-            <a href="#results" onClick={scrollToSection('results')} className="hover:text-ocean dark:hover:text-ocean transition-colors uppercase">Results</a>
+            {NAV_LINKS.map(({ id, label }) => (
+              <a
+                key={id}
+                href={`#${id}`}
+                onClick={scrollToSection(id)}
+                aria-current={navSection === id ? 'location' : undefined}
+                className={`hover:text-ocean dark:hover:text-ocean transition-colors uppercase ${navSection === id ? 'text-ocean' : ''}`}
+              >
+                {label}
+              </a>
+            ))}
             
             <div className="h-6 w-[1px] bg-slate-200 dark:bg-slate-700 mx-2"></div>
 
-            <button 
-              onClick={() => setIsDark(!isDark)}
-              className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
-              aria-label="Toggle Dark Mode"
-            >
-              {isDark ? <Sun size={20} /> : <Moon size={20} />}
-            </button>
+            <ThemeMenu preference={themePreference} theme={theme} onChange={setThemePreference} />
 
             <a 
-              href="https://github.com/NischalRam/USS--Water-Remote-Sensing-for-Water-Detection" 
+              href={paper.repositoryUrl}
               target="_blank" 
               rel="noopener noreferrer" 
               className="px-5 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-full hover:bg-ocean dark:hover:bg-slate-200 transition-colors shadow-sm font-bold"
@@ -116,12 +219,7 @@ const Website: React.FC = () => {
           </div>
 
           <div className="md:hidden flex items-center gap-4">
-            <button 
-                onClick={() => setIsDark(!isDark)}
-                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
-            >
-                {isDark ? <Sun size={20} /> : <Moon size={20} />}
-            </button>
+            <ThemeMenu preference={themePreference} theme={theme} onChange={setThemePreference} />
             <button className="text-slate-900 dark:text-white p-2" onClick={() => setMenuOpen(!menuOpen)}>
                 {menuOpen ? <X /> : <Menu />}
             </button>
@@ -132,16 +230,23 @@ const Website: React.FC = () => {
       {/* Mobile Menu */}
       {menuOpen && (
         <div className="fixed inset-0 z-40 bg-white dark:bg-slate-900 flex flex-col items-center justify-center gap-8 text-xl font-serif animate-fade-in text-slate-900 dark:text-white">
-            <a href="#intro" onClick={scrollToSection('intro')}>Overview</a>
-            <a href="#dataset" onClick={scrollToSection('dataset')}>The Dataset</a>
-            <a href="#model" onClick={scrollToSection('model')}>U-Net+</a>
-            <a href="#results" onClick={scrollToSection('results')}>Results</a>
+            {NAV_LINKS.map(({ id, mobileLabel }) => (
+              <a
+                key={id}
+                href={`#${id}`}
+                onClick={scrollToSection(id)}
+                aria-current={navSection === id ? 'location' : undefined}
+                className={navSection === id ? 'text-ocean' : undefined}
+              >
+                {mobileLabel}
+              </a>
+            ))}
              <a 
-              href="https://github.com/NischalRam/USS--Water-Remote-Sensing-for-Water-Detection" 
+              href={paper.repositoryUrl}
               target="_blank" 
               rel="noopener noreferrer" 
               onClick={() => setMenuOpen(false)}
-              className="px-6 py-3 bg-ocean text-white rounded-full"
+              className="px-6 py-3 bg-ocean text-ocean-fg rounded-full"
             >
               Access GitHub
             </a>
@@ -149,8 +254,8 @@ const Website: React.FC = () => {
       )}
 
       {/* Hero Section */}
-      <header className="relative h-screen flex items-center justify-center overflow-hidden bg-slate-900">
-        <HeroScene />
+      <header className="relative h-screen flex items-center justify-center overflow-hidden bg-slate-900" style={{ backgroundColor: palette.scene.background }}>
+        <HeroScene palette={palette.scene} />
         
         {/* Gradient Overlay */}
         <div className="absolute inset-0 z-0 pointer-events-none bg-gradient-to-b from-transparent via-slate-900/20 to-slate-900/90 dark:to-slate-950/90" />
@@ -162,14 +267,14 @@ const Website: React.FC = () => {
             className="relative z-10 container mx-auto px-6 text-center text-white"
         >
           <div className="inline-block mb-6 px-4 py-1.5 border border-white/20 bg-white/10 backdrop-blur-md rounded-full text-xs font-bold tracking-[0.2em] uppercase text-cyan-200">
-            Scientific Reports • 2024
+            {paper.journal} • {paper.year}
           </div>
           <h1 className="font-serif text-5xl md:text-7xl lg:text-8xl font-medium leading-tight mb-8 drop-shadow-lg">
             High-Resolution <br/>
             <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-300 to-blue-500">Water Mapping</span>
           </h1>
           <p className="max-w-2xl mx-auto text-lg md:text-xl text-slate-300 font-light leading-relaxed mb-12">
-            Introducing <strong>USS-Water</strong> and <strong>U-Net+</strong>: A 1.48 billion pixel dataset and optimized deep learning model for detecting U.S. surface water at 0.3m resolution.
+            Introducing <strong>{paper.shortTitle}</strong> and <strong>{model.name}</strong>: A {formatBillions(dataset.labeledPixels)} pixel dataset and optimized deep learning model for detecting U.S. surface water at {formatMeters(dataset.resolutionM)} resolution.
           </p>
           
           <div className="flex justify-center">
@@ -201,7 +306,7 @@ const Website: React.FC = () => {
               </p>
               <div className="p-6 bg-slate-50 dark:bg-slate-800 border-l-4 border-ocean rounded-r-xl transition-colors">
                 <p className="font-medium text-slate-800 dark:text-slate-200 italic">
-                  "USS-Water provides 0.3m resolution across 44 states, labeling 7 distinct water types for unprecedented detail."
+                  "{paper.shortTitle} provides {formatMeters(dataset.resolutionM)} resolution across {dataset.states} states, labeling {dataset.classes.length} distinct water types for unprecedented detail."
                 </p>
               </div>
             </Reveal>
@@ -215,32 +320,60 @@ const Website: React.FC = () => {
                     <div className="inline-flex items-center gap-2 px-3 py-1 bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-xs font-bold tracking-widest uppercase rounded-full mb-4 border border-slate-200 dark:border-slate-700 shadow-sm">
                         <Map size={14}/> The Data
                     </div>
-                    <h2 className="font-serif text-4xl md:text-5xl mb-4 text-slate-900 dark:text-white">USS-Water Dataset</h2>
+                    <h2 className="font-serif text-4xl md:text-5xl mb-4 text-slate-900 dark:text-white">{paper.shortTitle} Dataset</h2>
                     <p className="text-slate-500 dark:text-slate-400 max-w-2xl mx-auto">
-                        Covering 1,483 locations across diverse U.S. landscapes.
+                        Covering {formatCount(dataset.images)} images from {dataset.locations} locations across diverse U.S. landscapes.
                     </p>
                 </Reveal>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 items-center">
                     <Reveal className="order-2 lg:order-1" delay={0.2}>
-                        <DatasetMap />
+                        <div className="flex justify-end mb-3">
+                            <div role="group" aria-label="Dataset view" className="inline-flex p-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-sm">
+                                {([['map', 'Map', Map], ['globe', 'Globe', Globe]] as const).map(([view, label, Icon]) => (
+                                    <button
+                                        key={view}
+                                        onClick={() => setDatasetView(view)}
+                                        aria-pressed={datasetView === view}
+                                        className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-bold uppercase tracking-wider transition-colors ${
+                                            datasetView === view ? 'bg-ocean text-ocean-fg' : 'text-slate-500 dark:text-slate-400 hover:text-ocean'
+                                        }`}
+                                    >
+                                        <Icon size={14} /> {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {datasetView === 'map' ? (
+                            <DatasetMap
+                                filter={datasetFilter}
+                                selectedLocation={selectedLocation}
+                                onSelectLocation={setSelectedLocation}
+                                maskOpacity={maskOpacity}
+                                onMaskOpacityChange={setMaskOpacity}
+                            />
+                        ) : (
+                            <DatasetGlobe
+                                filter={datasetFilter}
+                                selectedLocation={selectedLocation}
+                                onSelectLocation={setSelectedLocation}
+                                maskOpacity={maskOpacity}
+                                onMaskOpacityChange={setMaskOpacity}
+                                palette={palette.scene}
+                            />
+                        )}
                     </Reveal>
                     <div className="order-1 lg:order-2 space-y-8">
                         <Reveal delay={0.1}>
                             <h3 className="text-2xl font-serif text-slate-900 dark:text-white mb-2">Unprecedented Scale</h3>
                             <p className="text-slate-600 dark:text-slate-300">
-                                1.48 billion labeled pixels derived from high-resolution Google Earth RGB imagery. Unlike binary water masks, we classify <strong>7 distinct types</strong>.
+                                {formatBillions(dataset.labeledPixels)} labeled pixels derived from high-resolution Google Earth RGB imagery. Unlike binary water masks, we classify <strong>{dataset.classes.length} distinct types</strong>.
                             </p>
                         </Reveal>
                         
-                        <div className="grid grid-cols-2 gap-4">
-                            {[
-                                { label: 'Images', val: '1,483' },
-                                { label: 'Resolution', val: '0.3m' },
-                                { label: 'States', val: '44' },
-                                { label: 'Classes', val: '7' },
-                            ].map((stat, i) => (
-                                <Reveal key={i} className="p-4 bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-100 dark:border-slate-700" delay={0.1 + (i * 0.1)}>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                            {datasetStats.map((stat, i) => (
+                                <Reveal key={stat.label} className="p-4 bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-100 dark:border-slate-700" delay={0.1 + (i * 0.05)}>
                                     <div className="text-3xl font-bold text-ocean mb-1">{stat.val}</div>
                                     <div className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400 font-bold">{stat.label}</div>
                                 </Reveal>
@@ -248,14 +381,58 @@ const Website: React.FC = () => {
                         </div>
 
                         <Reveal delay={0.3}>
-                            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-3 mt-4">Water Classes</h3>
+                            <div className="flex items-center justify-between mb-3 mt-4">
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-white">Water Classes</h3>
+                                {isFilterActive(datasetFilter) && (
+                                    <button
+                                        onClick={() => setDatasetFilter(EMPTY_FILTER)}
+                                        className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 hover:text-ocean transition-colors"
+                                    >
+                                        Clear filters
+                                    </button>
+                                )}
+                            </div>
                             <div className="flex flex-wrap gap-2">
-                                {['Rivers', 'Lakes', 'Ponds', 'Reservoirs', 'Wetlands', 'Creeks', 'Coastal'].map((c) => (
-                                    <span key={c} className="px-3 py-1 bg-cyan-100 dark:bg-cyan-900/30 text-cyan-800 dark:text-cyan-300 rounded-full text-sm font-medium border border-cyan-200 dark:border-cyan-800">
-                                        {c}
-                                    </span>
-                                ))}
+                                {dataset.classes.map(({ id, label: c }) => {
+                                    const active = datasetFilter.classes.includes(id);
+                                    return (
+                                        <button
+                                            key={id}
+                                            onClick={() => toggleClassFilter(id)}
+                                            aria-pressed={active}
+                                            className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                                                active
+                                                    ? 'bg-ocean text-ocean-fg border-ocean'
+                                                    : 'bg-cyan-100 dark:bg-cyan-900/30 text-cyan-800 dark:text-cyan-300 border-cyan-200 dark:border-cyan-800 hover:border-ocean'
+                                            }`}
+                                        >
+                                            {c}
+                                            {allLocations && <span className="ml-1.5 text-xs opacity-70">{classCounts[id]}</span>}
+                                        </button>
+                                    );
+                                })}
                             </div>
+                            <label className="flex items-center gap-3 mt-4 text-sm text-slate-600 dark:text-slate-300">
+                                <span className="font-bold">State</span>
+                                <select
+                                    value={datasetFilter.state ?? ''}
+                                    onChange={(e) => setDatasetFilter(f => ({ ...f, state: e.target.value || null }))}
+                                    disabled={!allLocations}
+                                    className="flex-1 px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-800 dark:text-slate-100 focus:border-ocean outline-none"
+                                >
+                                    <option value="">All {dataset.states} states</option>
+                                    {stateOptions.map(o => (
+                                        <option key={o.code} value={o.code} disabled={o.count === 0}>
+                                            {o.name} ({o.count})
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            {manifest.status === 'ready' && manifest.placeholder && (
+                                <p className="mt-3 text-xs text-amber-800 dark:text-amber-300">
+                                    Counts come from placeholder locations that only match the dataset's published totals.
+                                </p>
+                            )}
                         </Reveal>
                     </div>
                 </div>
@@ -274,31 +451,35 @@ const Website: React.FC = () => {
                         <div className="inline-flex items-center gap-2 px-3 py-1 bg-slate-800 dark:bg-slate-800 text-cyan-400 text-xs font-bold tracking-widest uppercase rounded-full mb-6 border border-slate-700">
                             <Layers size={14}/> The Innovation
                         </div>
-                        <h2 className="font-serif text-4xl md:text-5xl mb-6 text-white">U-Net+ Architecture</h2>
+                        <h2 className="font-serif text-4xl md:text-5xl mb-6 text-white">{model.name} Architecture</h2>
                         <p className="text-lg text-slate-300 mb-6 leading-relaxed">
-                            Standard U-Net models are heavy. <strong>U-Net+</strong> introduces <em>Patch Compression</em> and <em>Depth-wise Separable Convolutions</em> to slash computational load while maintaining high accuracy.
+                            Standard U-Net models are heavy. <strong>{model.name}</strong> introduces <em>Patch Compression</em> and <em>Depth-wise Separable Convolutions</em> to slash computational load while maintaining high accuracy.
                         </p>
                         <ul className="space-y-4 mb-8">
                             <li className="flex items-start gap-3">
                                 <div className="mt-1 p-1 bg-emerald-500/20 rounded text-emerald-400"><Zap size={16}/></div>
                                 <div>
                                     <strong className="text-white block">Fast Inference</strong>
-                                    <span className="text-slate-400 text-sm">Achieves 6 FPS on consumer GPUs, suitable for near-real-time applications.</span>
+                                    <span className="text-slate-400 text-sm">Achieves {OUR_MODEL.fps} FPS on consumer GPUs, suitable for near-real-time applications.</span>
                                 </div>
                             </li>
                             <li className="flex items-start gap-3">
                                 <div className="mt-1 p-1 bg-blue-500/20 rounded text-blue-400"><Map size={16}/></div>
                                 <div>
                                     <strong className="text-white block">Large Scene Tiling</strong>
-                                    <span className="text-slate-400 text-sm">Efficiently processes massive mosaics (e.g., 21k x 12k pixels) via smart tiling and blending.</span>
+                                    <span className="text-slate-400 text-sm">Efficiently processes massive mosaics (e.g., {formatKilo(model.exampleScene.width)} x {formatKilo(model.exampleScene.height)} pixels) via smart tiling and blending.</span>
                                 </div>
                             </li>
                         </ul>
                      </Reveal>
                      <Reveal delay={0.2} className="bg-slate-800/50 dark:bg-slate-900/50 p-2 rounded-2xl border border-slate-700 shadow-2xl">
-                        <ArchitectureDiagram />
+                        <ArchitectureDiagram activeStep={architectureStep} />
                      </Reveal>
                 </div>
+
+                <Reveal delay={0.2} className="mt-16">
+                    <ModelPlayground />
+                </Reveal>
             </div>
         </section>
 
@@ -308,36 +489,48 @@ const Website: React.FC = () => {
                 <Reveal className="max-w-4xl mx-auto text-center mb-16">
                     <h2 className="font-serif text-4xl md:text-5xl mb-6 text-slate-900 dark:text-white">Performance Benchmarks</h2>
                     <p className="text-lg text-slate-600 dark:text-slate-300 leading-relaxed">
-                        U-Net+ competes with heavyweights like DeepLabV3+ and MSResNet-34 in accuracy but wins decisively on speed and efficiency.
+                        {model.name} competes in accuracy with {BASELINE_LIST} but wins decisively on speed and efficiency.
                     </p>
                 </Reveal>
                 
                 <Reveal delay={0.2} className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-700 overflow-hidden">
-                    <PerformanceChart />
+                    <PerformanceChart highlightedModel={highlightedModel} axes={chartAxes} onAxesChange={setChartAxes} />
+                </Reveal>
+
+                <Reveal delay={0.2} className="mt-16">
+                    <Leaderboard />
                 </Reveal>
 
                 <div className="mt-16 grid grid-cols-1 md:grid-cols-2 gap-8">
-                     <Reveal delay={0.3} className="p-8 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
-                        <h3 className="font-serif text-2xl text-slate-900 dark:text-white mb-4">Urban Case Study: Chicago</h3>
-                        <p className="text-slate-600 dark:text-slate-300 mb-4">
-                            In dense urban environments like Jackson Park, Chicago, U-Net+ successfully distinguishes boats from water and handles complex harbor edges.
-                        </p>
-                        <div className="flex gap-4 items-center text-sm font-bold text-ocean">
-                            <span>IoU: 82.1%</span>
-                            <span>F1-Score: 92.7%</span>
-                        </div>
-                     </Reveal>
-                     <Reveal delay={0.4} className="p-8 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
-                        <h3 className="font-serif text-2xl text-slate-900 dark:text-white mb-4">Industrial Case Study: Gary, IN</h3>
-                        <p className="text-slate-600 dark:text-slate-300 mb-4">
-                             Successfully identifies thin canals and polluted water in industrial zones where other models often fail due to low contrast and debris.
-                        </p>
-                        <div className="flex gap-4 items-center text-sm font-bold text-ocean">
-                            <span>IoU: 80.9%</span>
-                            <span>F1-Score: 92.1%</span>
-                        </div>
-                     </Reveal>
+                    {caseStudies.map((study, i) => (
+                        <Reveal key={study.id} id={`case-${study.id}`} delay={0.3 + i * 0.1} className="p-8 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                            <h3 className="font-serif text-2xl text-slate-900 dark:text-white mb-4">{study.title}</h3>
+                            <p className="text-slate-600 dark:text-slate-300 mb-4">
+                                {study.description}
+                            </p>
+                            <div className="flex gap-4 items-center text-sm font-bold text-ocean">
+                                <span>IoU: {study.iou}%</span>
+                                <span>F1-Score: {study.f1}%</span>
+                                <button
+                                    onClick={() => setOpenComparison(openComparison === study.id ? null : study.id)}
+                                    aria-expanded={openComparison === study.id}
+                                    className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded-full border border-ocean/40 text-xs uppercase tracking-wider hover:bg-ocean hover:text-ocean-fg transition-colors"
+                                >
+                                    <SplitSquareHorizontal size={14} /> {openComparison === study.id ? 'Hide' : 'Compare'}
+                                </button>
+                            </div>
+                            {openComparison === study.id && (
+                                <div className="mt-6">
+                                    <MaskComparison sources={caseStudyUrls(study.id)} title={study.title} />
+                                </div>
+                            )}
+                        </Reveal>
+                    ))}
                 </div>
+
+                <Reveal delay={0.2} className="mt-16">
+                    <MetricCalculator />
+                </Reveal>
             </div>
         </section>
 
@@ -347,17 +540,13 @@ const Website: React.FC = () => {
                 <Reveal className="text-center mb-12">
                     <div className="inline-block mb-3 text-xs font-bold tracking-widest text-slate-500 dark:text-slate-400 uppercase">THE TEAM</div>
                     <h2 className="font-serif text-3xl md:text-5xl mb-4 text-slate-900 dark:text-white">Research Authors</h2>
-                    <p className="text-slate-500 dark:text-slate-400 max-w-2xl mx-auto">Northern Illinois University</p>
+                    <p className="text-slate-500 dark:text-slate-400 max-w-2xl mx-auto">{paper.institution}</p>
                 </Reveal>
                 
                 <div className="flex flex-wrap gap-6 justify-center">
-                    <AuthorCard name="Madhu Goutham Reddy Ambati" role="Lead Author" university="Dept. of Computer Science, NIU" index={0} />
-                    <AuthorCard name="Nischal Vooda" role="Co-Author" university="Dept. of Computer Science, NIU" index={1} />
-                    <AuthorCard name="Mohammed Sohaib Uddin" role="Co-Author" university="College of Business, NIU" index={2} />
-                    <AuthorCard name="Abdul Rahman Shaikh" role="Co-Author" university="Dept. of Computer Science, NIU" index={3} />
-                    <AuthorCard name="Mani Sai Lakshmi Karasani" role="Co-Author" university="Dept. of Computer Science, NIU" index={4} />
-                    <AuthorCard name="M. Courtney Hughes" role="Co-Author" university="College of Health & Human Sciences, NIU" index={5} />
-                    <AuthorCard name="Mahdi Vaezi" role="Corresponding Author" university="College of Engineering, NIU" index={6} />
+                    {authors.map((author, i) => (
+                        <AuthorCard key={author.name} name={author.name} role={author.role} university={author.affiliation} index={i} />
+                    ))}
                 </div>
            </div>
         </section>
@@ -368,21 +557,21 @@ const Website: React.FC = () => {
         <div className="container mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-8">
             <div className="text-center md:text-left">
                 <div className="text-white font-serif font-bold text-2xl mb-2 flex items-center gap-2 justify-center md:justify-start">
-                    <Satellite size={24} className="text-ocean" /> USS-Water
+                    <Satellite size={24} className="text-ocean" /> {paper.shortTitle}
                 </div>
                 <p className="text-sm max-w-md">
-                    "USS-Water Dataset and U-Net+: High-Resolution Satellite Mapping of U.S. Surface Water"
+                    "{paper.title}"
                 </p>
             </div>
             <div className="text-center md:text-right text-xs">
-                <p>Published in Scientific Reports</p>
-                <p>Data available under MIT License</p>
+                <p>Published in {paper.journal}</p>
+                <p>Data available under {paper.dataLicense}</p>
             </div>
         </div>
       </footer>
       
       {/* AI Assistant */}
-      <ChatBot />
+      <ChatBot tools={toolHandlers} />
     </div>
   );
 };
@@ -3,85 +3,66 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { MessageSquare, Send, X, Bot, User, Loader2, Sparkles } from 'lucide-react';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import React, { useState, useRef, useEffect } from 'react';
+import { MessageSquare, Send, X, Bot, User, Loader2, Sparkles, PlugZap, Square, RotateCcw, BookOpen, History, Plus, FileDown, Eraser, Pencil, Trash2, Zap, ShieldAlert, ImagePlus } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-// Context to feed the AI about the paper
-const SYSTEM_INSTRUCTION = `You are the AI research assistant for the "USS-Water" website. 
-Your goal is to answer questions about the paper "USS-Water: High-Resolution Satellite Mapping of U.S. Surface Water" (Scientific Reports, 2024).
-
-KEY FACTS:
-- Authors: Madhu Goutham Reddy Ambati (Lead), Nischal Vooda, Mohammed Sohaib Uddin, Abdul Rahman Shaikh, Mani Sai Lakshmi Karasani, M. Courtney Hughes, Mahdi Vaezi (NIU).
-- Problem: Traditional satellite water detection (Landsat/Sentinel) has low resolution (10-30m), missing small water bodies like narrow streams and ponds.
-- Dataset ("USS-Water"): 
-  - Source: High-resolution RGB imagery from Google Earth Pro.
-  - Size: 1,483 images, 1.48 billion labeled pixels.
-  - Resolution: 0.3 meters/pixel.
-  - Coverage: 147 locations across 44 U.S. states.
-  - Classes (7): Rivers, Lakes, Ponds, Reservoirs, Wetlands, Creeks, Coastal.
-  - Preprocessing: 
-    - Images cropped to remove map legends and UI artifacts.
-    - Sliced into smaller patches for training to fit GPU memory constraints.
-    - Data Augmentation: Techniques like rotation, flipping, and brightness adjustments were used to improve generalization.
-- Model ("U-Net+"):
-  - Architecture: Customized U-Net with efficient encoder-decoder blocks.
-  - Key Innovation 1: Patch Compression - Handles large input images by resizing and intelligent tiling, significantly reducing memory overhead.
-  - Key Innovation 2: Depth-wise Separable Convolutions - Replaces standard convolutions to reduce parameter count by ~40% and drastically speed up inference.
-- Performance:
-  - F1 Score: 93.6% (Competitive with state-of-the-art).
-  - Inference Speed: 6.0 FPS on RTX 3090 (3x faster than MSResNet-34).
-  - VRAM Usage: Highly efficient (4.2GB), allowing deployment on standard consumer hardware.
-- Comparison:
-  - MSResNet-34: Slightly higher accuracy (95.4% F1) but computationally expensive (10.7GB VRAM, 1.9 FPS).
-  - DeepLabV3+: Lower accuracy (92.0% F1) and slower (2.1 FPS).
-  - SegFormer-B0: Good balance (94.1% F1), but U-Net+ is optimized specifically for speed/accuracy trade-off in this domain.
-
-LIMITATIONS & ASSUMPTIONS:
-- Reliance on RGB: The model uses only Red, Green, Blue channels. It lacks Near-Infrared (NIR) bands (common in Landsat/Sentinel), yet achieves high accuracy through deep learning feature extraction.
-- Environmental Challenges: 
-  - Heavy cloud cover or thick atmospheric haze can obstruct detection.
-  - Extreme shadows in dense urban canyons (skyscrapers) may occasionally result in false negatives.
-  - Frozen water bodies or snow cover in winter are not the primary target and may be misclassified.
-- Seasonality: The dataset captures specific temporal snapshots; highly ephemeral streams (dry season) might be underrepresented.
-
-BEHAVIOR:
-- Keep answers concise, professional, and scientific.
-- If asked about code or data availability, refer to the GitHub link provided in the interface.
-- If asked unrelated questions, politely steer the conversation back to the paper's findings.
-`;
-
-interface Message {
-  role: 'user' | 'model';
-  text: string;
-}
-
-export const ChatBot: React.FC = () => {
+import { CONTENT } from '../data/content';
+import { resolveChatBackend } from '../lib/chat';
+import { CHAT_IMAGE_LIMITS, CHAT_IMAGE_TYPES, ChatServiceError } from '../lib/chat/types';
+import { Attachment, AttachmentError, prepareAttachment } from '../lib/chat/attachments';
+import { ToolHandlers, runToolCalls, stripToolBlocks } from '../lib/chat/tools';
+import { followUpsFor, stripFollowUps } from '../lib/chat/followups';
+import { ThreadMessage, threadTitle, threadToJson, threadToMarkdown, toHistory } from '../lib/chat/threads';
+import { downloadText } from '../lib/download';
+import { useChatThreads } from '../hooks/useChatThreads';
+import { useActiveSection } from '../hooks/useActiveSection';
+import { starterQuestions } from '../data/suggestions';
+import { navigateToSection } from '../lib/scroll';
+import { retrievePassages } from '../data/paper';
+import { ChatMarkdown } from './ChatMarkdown';
+
+// Resolved once from build-time configuration; see lib/chat.
+const BACKEND = resolveChatBackend();
+
+const GREETING: ThreadMessage = {
+  role: 'model',
+  text: `Hi! I'm the ${CONTENT.paper.shortTitle} AI assistant. Ask me anything about the dataset, the ${CONTENT.model.name} model, or our results.`,
+};
+
+// Reply text without the machine-readable blocks at its end.
+const visibleText = (text: string) => stripFollowUps(stripToolBlocks(text));
+
+// Sent when the user attaches images without typing a question.
+const IMAGE_ONLY_QUESTION = `Would ${CONTENT.model.name} handle this scene?`;
+
+// Reply text for the screen reader announcement: links read as their text and
+// Markdown punctuation is dropped rather than spelled out.
+const spokenText = (text: string) =>
+  visibleText(text).replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`#>|$~]+/g, '').replace(/\s+/g, ' ').trim();
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const headerButton = "p-1.5 hover:bg-white/10 rounded-full transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+
+// `tools` are the page actions replies may trigger; without them requested
+// actions are listed but not run.
+export const ChatBot: React.FC<{ tools?: ToolHandlers }> = ({ tools }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([
-    { role: 'model', text: "Hi! I'm the USS-Water AI assistant. Ask me anything about the dataset, the U-Net+ model, or our results." }
-  ]);
+  const { threads, active, setMessages, newThread, selectThread, renameThread, clearThread, deleteThread } = useChatThreads();
+  const [showThreads, setShowThreads] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  // Read out by the live region: one line per reply, not every streamed token.
+  const [announcement, setAnnouncement] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const messages = active.messages;
   const messagesEndRef = useRef<HTMLDivElement>(null);
-
-  // Initialize Chat Session
-  // We use useMemo to keep the chat instance stable, but we need to handle the case where env might not be ready immediately in some setups.
-  // However, for this environment, process.env.API_KEY is assumed ready.
-  const chatSession = useMemo(() => {
-    try {
-      const ai = new GoogleGenerativeAI({ apiKey: process.env.API_KEY });
-      return ai.chats.create({
-        model: 'gemini-3-flash-preview',
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-        },
-      });
-    } catch (error) {
-      console.error("Failed to initialize Gemini AI", error);
-      return null;
-    }
-  }, []);
+  const abortRef = useRef<AbortController | null>(null);
+  const provider = BACKEND.status === 'ready' ? BACKEND.provider : null;
+  const activeSection = useActiveSection();
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -91,27 +72,133 @@ export const ChatBot: React.FC = () => {
     scrollToBottom();
   }, [messages, isOpen]);
 
-  const handleSend = async () => {
-    if (!input.trim() || !chatSession) return;
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    const userMessage = input.trim();
-    setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMessage }]);
+  // Streams a reply to `question` into a new model message appended after `thread`.
+  const streamReply = async (thread: ThreadMessage[], question: ThreadMessage) => {
+    if (!provider) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const threadId = active.id;
+    const index = thread.length + 1;
+    const update = (patch: (m: ThreadMessage) => ThreadMessage) =>
+      setMessages(threadId, prev => prev.map((m, i) => (i === index ? patch(m) : m)));
+
+    const passages = retrievePassages(question.text);
+    const sources = [...new Set(passages.map(p => p.section))];
+
+    setMessages(threadId, () => [...thread, question, { role: 'model', text: '', state: 'streaming', sources }]);
     setIsLoading(true);
+    setAnnouncement('Assistant is replying…');
 
+    let full = '';
     try {
-      const result = await chatSession.sendMessage({ message: userMessage });
-      const responseText = result.text;
-      
-      setMessages(prev => [...prev, { role: 'model', text: responseText || "I couldn't generate a response." }]);
+      for await (const delta of provider.stream({ history: toHistory(thread), message: question.text, passages, images: question.images }, controller.signal)) {
+        full += delta;
+        update(m => ({ ...m, text: m.text + delta }));
+      }
+      // Page actions only run once the reply is complete, never on a partial one.
+      const actions = runToolCalls(full, tools);
+      const text = visibleText(full) || (actions.length ? 'Done.' : "I couldn't generate a response.");
+      const asked = [...thread, question].filter(m => m.role === 'user').map(m => m.text);
+      const followUps = followUpsFor(full, asked);
+      update(m => ({ ...m, text, state: 'done', ...(actions.length && { actions }), ...(followUps.length && { followUps }) }));
+      setAnnouncement(`Assistant: ${spokenText(text)}`);
     } catch (error) {
-      console.error("Chat Error:", error);
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error connecting to the AI service." }]);
+      if (isAbortError(error) || controller.signal.aborted) {
+        update(m => ({ ...m, text: visibleText(m.text), state: 'stopped' }));
+        setAnnouncement('Reply stopped.');
+      } else {
+        console.error("Chat Error:", error);
+        const reason = error instanceof ChatServiceError ? error.message : undefined;
+        update(m => ({ ...m, text: visibleText(m.text), state: 'interrupted', ...(reason && { error: reason }) }));
+        setAnnouncement(`Reply interrupted. ${reason ?? ''}`.trim());
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const send = (text: string, attached: Attachment[] = []) => {
+    if (!text.trim() || !provider || isLoading) return;
+    setShowThreads(false);
+    streamReply(messages, {
+      role: 'user',
+      text: text.trim(),
+      ...(attached.length && {
+        images: attached.map(a => a.image),
+        attachments: attached.map(({ name, thumbnail }) => ({ name, thumbnail })),
+      }),
+    });
+  };
+
+  const handleSend = () => {
+    if ((!input.trim() && attachments.length === 0) || !provider || isLoading) return;
+    send(input.trim() || IMAGE_ONLY_QUESTION, attachments);
+    setInput('');
+    setAttachments([]);
+    setAttachError(null);
+  };
+
+  const addFiles = async (files: File[]) => {
+    const room = CHAT_IMAGE_LIMITS.count - attachments.length;
+    if (files.length > room) setAttachError(`Up to ${CHAT_IMAGE_LIMITS.count} images per question.`);
+    const results = await Promise.allSettled(files.slice(0, Math.max(0, room)).map(prepareAttachment));
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) setAttachError(failed.reason instanceof AttachmentError ? failed.reason.message : 'Could not attach that image.');
+    else if (files.length <= room) setAttachError(null);
+    const added = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+    setAttachments(prev => [...prev, ...added].slice(0, CHAT_IMAGE_LIMITS.count));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = [...e.clipboardData.files].filter(f => f.type.startsWith('image/'));
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  // Starters follow the section in view until the first question; then the
+  // latest finished reply's follow-ups.
+  const lastMessage = messages[messages.length - 1];
+  const suggestions = messages.length === 0
+    ? starterQuestions(activeSection)
+    : lastMessage.role === 'model' && lastMessage.state === 'done' ? lastMessage.followUps ?? [] : [];
+
+  const handleStop = () => abortRef.current?.abort();
+
+  // Citation chips close the chat so the cited section is visible.
+  const handleCite = (sectionId: string) => {
+    setIsOpen(false);
+    navigateToSection(sectionId);
+  };
+
+  // Replaces the last reply with a fresh one to the same question.
+  const handleRegenerate = () => {
+    const last = messages.length - 1;
+    const question = messages[last - 1];
+    if (isLoading || messages[last]?.role !== 'model' || question?.role !== 'user') return;
+    streamReply(messages.slice(0, last - 1), question);
+  };
+
+  const handleExport = (format: 'md' | 'json') => {
+    const label = provider?.label;
+    const file = format === 'md'
+      ? threadToMarkdown(active, label, window.location.href.split('#')[0])
+      : threadToJson(active, label);
+    downloadText(file.filename, file.content, format === 'md' ? 'text/markdown' : 'application/json');
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear all messages in this chat?')) clearThread(active.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const thread = threads.find(t => t.id === id);
+    if (thread && window.confirm(`Delete "${threadTitle(thread)}"? This can't be undone.`)) deleteThread(id);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -121,6 +208,8 @@ export const ChatBot: React.FC = () => {
 
   return (
     <>
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
       {/* Floating Action Button */}
       <motion.button
         initial={{ scale: 0 }}
@@ -128,6 +217,7 @@ export const ChatBot: React.FC = () => {
         whileHover={{ scale: 1.1 }}
         whileTap={{ scale: 0.9 }}
         onClick={() => setIsOpen(true)}
+        aria-label="Open assistant"
         className={`fixed bottom-6 right-6 z-50 p-4 rounded-full shadow-2xl text-white transition-all duration-300 ${isOpen ? 'scale-0 opacity-0 pointer-events-none' : 'bg-gradient-to-r from-ocean to-blue-600'}`}
       >
         <MessageSquare size={24} fill="white" />
@@ -155,20 +245,80 @@ export const ChatBot: React.FC = () => {
                 </div>
                 <div>
                   <h3 className="font-bold text-sm">Ask USS-Water AI</h3>
-                  <p className="text-[10px] text-slate-400">Powered by Gemini 3</p>
+                  <p className="text-[10px] text-slate-400">{provider ? `Powered by ${provider.label}` : 'Offline'}</p>
                 </div>
               </div>
-              <button 
-                onClick={() => setIsOpen(false)}
-                className="p-1 hover:bg-white/10 rounded-full transition-colors"
-              >
-                <X size={20} />
+              <div className="flex items-center gap-1">
+                <button onClick={() => setShowThreads(v => !v)} aria-pressed={showThreads} disabled={isLoading} title="Saved chats" className={headerButton}>
+                  <History size={18} />
+                </button>
+                <button onClick={() => { newThread(); setShowThreads(false); }} disabled={isLoading} title="New chat" className={headerButton}>
+                  <Plus size={18} />
+                </button>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            {/* Thread toolbar */}
+            <div className="flex items-center gap-1 px-4 py-1.5 text-xs border-b border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 shrink-0">
+              <span className="flex-1 truncate font-bold" title={threadTitle(active)}>{threadTitle(active)}</span>
+              <button onClick={() => handleExport('md')} disabled={messages.length === 0} title="Export as Markdown" className="flex items-center gap-0.5 px-1.5 py-0.5 rounded hover:text-ocean disabled:opacity-40 disabled:hover:text-inherit transition-colors">
+                <FileDown size={12} /> MD
+              </button>
+              <button onClick={() => handleExport('json')} disabled={messages.length === 0} title="Export as JSON" className="flex items-center gap-0.5 px-1.5 py-0.5 rounded hover:text-ocean disabled:opacity-40 disabled:hover:text-inherit transition-colors">
+                <FileDown size={12} /> JSON
+              </button>
+              <button onClick={handleClear} disabled={messages.length === 0 || isLoading} title="Clear chat" className="p-1 rounded hover:text-red-500 disabled:opacity-40 disabled:hover:text-inherit transition-colors">
+                <Eraser size={14} />
               </button>
             </div>
 
+            {/* Thread list */}
+            {showThreads && (
+              <div className="flex-1 overflow-y-auto p-2 bg-slate-50 dark:bg-slate-900/50">
+                {[...threads].sort((a, b) => b.updatedAt - a.updatedAt).map(t => (
+                  <div
+                    key={t.id}
+                    className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${t.id === active.id ? 'bg-ocean/10 text-ocean' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                  >
+                    {renaming === t.id ? (
+                      <input
+                        autoFocus
+                        defaultValue={t.title || threadTitle(t)}
+                        onBlur={(e) => { renameThread(t.id, e.target.value); setRenaming(null); }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        className="flex-1 min-w-0 px-2 py-0.5 bg-white dark:bg-slate-800 border border-ocean rounded outline-none"
+                      />
+                    ) : (
+                      <button onClick={() => { selectThread(t.id); setShowThreads(false); }} className="flex-1 min-w-0 text-left">
+                        <span className="block truncate font-bold">{threadTitle(t)}</span>
+                        <span className="block text-[10px] text-slate-400">
+                          {new Date(t.updatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} · {t.messages.filter(m => m.role === 'user').length} questions
+                        </span>
+                      </button>
+                    )}
+                    <button onClick={() => setRenaming(t.id)} title="Rename" className="p-1 rounded text-slate-400 hover:text-ocean opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(t.id)} title="Delete" className="p-1 rounded text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Messages Area */}
-            <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 dark:bg-slate-900/50">
-              {messages.map((msg, idx) => (
+            <div className={`flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 dark:bg-slate-900/50 ${showThreads ? 'hidden' : ''}`}>
+              {[GREETING, ...messages].map((msg, idx) => (
                 <div 
                   key={idx} 
                   className={`flex items-start gap-2 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
@@ -176,46 +326,161 @@ export const ChatBot: React.FC = () => {
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${msg.role === 'user' ? 'bg-slate-200 dark:bg-slate-700' : 'bg-ocean/10'}`}>
                     {msg.role === 'user' ? <User size={14} className="text-slate-600 dark:text-slate-300" /> : <Bot size={16} className="text-ocean" />}
                   </div>
-                  <div className={`max-w-[80%] p-3 text-sm rounded-2xl ${
-                    msg.role === 'user' 
-                      ? 'bg-slate-900 dark:bg-ocean text-white rounded-tr-none' 
-                      : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-tl-none shadow-sm'
-                  }`}>
-                    {msg.text}
+                  <div className={`max-w-[80%] flex flex-col gap-1 ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                    {msg.attachments && (
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {msg.attachments.map((a, i) => (
+                          <img key={i} src={a.thumbnail} alt={a.name} title={a.name} className="w-16 h-16 object-cover rounded-lg border border-slate-200 dark:border-slate-700" />
+                        ))}
+                      </div>
+                    )}
+                    <div className={`p-3 text-sm rounded-2xl min-w-0 max-w-full ${
+                      msg.role === 'user'
+                        ? 'bg-slate-900 text-white dark:bg-ocean dark:text-ocean-fg rounded-tr-none whitespace-pre-wrap'
+                        : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-tl-none shadow-sm'
+                    }`}>
+                      {msg.state === 'streaming' && !msg.text ? (
+                        <Loader2 size={16} className="animate-spin text-ocean" />
+                      ) : msg.state === 'interrupted' && !msg.text ? (
+                        msg.error ?? "Sorry, I encountered an error connecting to the AI service."
+                      ) : msg.state === 'stopped' && !msg.text ? (
+                        <span className="italic text-slate-400">Stopped.</span>
+                      ) : (
+                        <>
+                          {msg.role === 'user' ? msg.text : <ChatMarkdown text={visibleText(msg.text)} onCite={handleCite} />}
+                          {msg.state === 'streaming' && <span className="inline-block w-1.5 h-4 ml-0.5 -mb-0.5 bg-ocean animate-pulse" />}
+                        </>
+                      )}
+                    </div>
+                    {msg.role === 'model' && msg.text && msg.sources && (
+                      <div className="flex flex-wrap items-center gap-1 text-[10px] text-slate-400">
+                        <BookOpen size={12} />
+                        {msg.sources.length === 0 ? (
+                          <span>No matching passage in the paper summary</span>
+                        ) : msg.sources.map(source => (
+                          <span key={source} title={source} className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 max-w-[14rem] truncate">
+                            {source.split(' › ').pop()}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {msg.actions?.map((action, i) => (
+                      <span
+                        key={i}
+                        className={`flex items-center gap-1 text-[10px] font-bold ${action.ok ? 'text-ocean' : 'text-amber-600 dark:text-amber-400'}`}
+                      >
+                        {action.ok ? <Zap size={12} /> : <ShieldAlert size={12} />} {action.summary}
+                      </span>
+                    ))}
+                    {msg.role === 'model' && (msg.state === 'stopped' || msg.state === 'interrupted') && msg.text && (
+                      <span className="text-[10px] text-amber-600 dark:text-amber-400">
+                        {msg.state === 'stopped' ? 'Stopped. Reply is incomplete.' : `${msg.error ?? 'Connection lost.'} Reply is incomplete.`}
+                      </span>
+                    )}
+                    {msg.role === 'model' && idx === messages.length && idx > 0 && !isLoading && (
+                      <button
+                        onClick={handleRegenerate}
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-ocean transition-colors"
+                      >
+                        <RotateCcw size={12} /> {msg.state === 'done' ? 'Regenerate' : 'Retry'}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
-              {isLoading && (
-                 <div className="flex items-start gap-2">
-                    <div className="w-8 h-8 rounded-full bg-ocean/10 flex items-center justify-center shrink-0">
-                        <Bot size={16} className="text-ocean" />
-                    </div>
-                    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl rounded-tl-none shadow-sm">
-                        <Loader2 size={16} className="animate-spin text-ocean" />
-                    </div>
-                 </div>
+              {provider && !isLoading && suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 pl-10">
+                  {suggestions.map(question => (
+                    <button
+                      key={question}
+                      onClick={() => send(question)}
+                      className="px-2.5 py-1 text-xs text-left rounded-full border border-ocean/30 bg-white dark:bg-slate-800 text-ocean hover:bg-ocean hover:text-ocean-fg transition-colors"
+                    >
+                      {question}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {BACKEND.status === 'unavailable' && (
+                <div className="flex items-start gap-3 p-3 text-xs rounded-xl border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-amber-800 dark:text-amber-300">
+                  <PlugZap size={16} className="shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-bold mb-1">The assistant is unavailable</p>
+                    <p>{BACKEND.reason} Everything else on this page works without it.</p>
+                  </div>
+                </div>
               )}
               <div ref={messagesEndRef} />
             </div>
 
             {/* Input Area */}
             <div className="p-4 bg-white dark:bg-slate-800 border-t border-slate-100 dark:border-slate-700 shrink-0 transition-colors">
+              {attachments.length > 0 && (
+                <div className="flex gap-2 mb-2">
+                  {attachments.map((a, i) => (
+                    <div key={i} className="relative">
+                      <img src={a.thumbnail} alt={a.name} title={a.name} className="w-12 h-12 object-cover rounded-lg border border-slate-200 dark:border-slate-700" />
+                      <button
+                        onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                        aria-label={`Remove ${a.name}`}
+                        className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-900 text-white hover:bg-red-500 transition-colors"
+                      >
+                        <X size={10} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {attachError && <p className="mb-2 text-[10px] text-red-500">{attachError}</p>}
               <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={CHAT_IMAGE_TYPES.join(',')}
+                  multiple
+                  className="sr-only"
+                  onChange={(e) => {
+                    addFiles([...(e.target.files ?? [])]);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!provider || isLoading || attachments.length >= CHAT_IMAGE_LIMITS.count}
+                  aria-label="Attach image"
+                  title={`Attach up to ${CHAT_IMAGE_LIMITS.count} images`}
+                  className="p-2 text-slate-400 rounded-full hover:text-ocean hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+                >
+                  <ImagePlus size={18} />
+                </button>
                 <input
                   type="text"
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyPress}
-                  placeholder="Ask about accuracy, model..."
-                  className="flex-1 px-4 py-2 bg-slate-100 dark:bg-slate-700 rounded-full text-sm border-transparent focus:border-ocean focus:bg-white dark:focus:bg-slate-800 focus:ring-0 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-400 text-slate-800 dark:text-white"
+                  onPaste={handlePaste}
+                  placeholder={provider ? "Ask about accuracy, model..." : "Assistant unavailable"}
+                  disabled={!provider}
+                  className="flex-1 px-4 py-2 bg-slate-100 dark:bg-slate-700 rounded-full text-sm border-transparent focus:border-ocean focus:bg-white dark:focus:bg-slate-800 focus:ring-0 outline-none transition-all disabled:opacity-60 placeholder:text-slate-400 dark:placeholder:text-slate-400 text-slate-800 dark:text-white"
                 />
-                <button
-                  onClick={handleSend}
-                  disabled={!input.trim() || isLoading}
-                  className="p-2 bg-ocean text-white rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
-                >
-                  <Send size={18} />
-                </button>
+                {isLoading ? (
+                  <button
+                    onClick={handleStop}
+                    aria-label="Stop generating"
+                    className="p-2 bg-slate-900 dark:bg-slate-600 text-white rounded-full hover:bg-slate-700 dark:hover:bg-slate-500 transition-colors shadow-sm"
+                  >
+                    <Square size={18} fill="currentColor" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSend}
+                    disabled={(!input.trim() && attachments.length === 0) || !provider}
+                    aria-label="Send"
+                    className="p-2 bg-ocean text-ocean-fg rounded-full hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+                  >
+                    <Send size={18} />
+                  </button>
+                )}
               </div>
             </div>
           </motion.div>
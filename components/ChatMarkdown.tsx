@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import Markdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { Hash, ExternalLink } from 'lucide-react';
+import { resolveSectionLink } from '../data/sections';
+
+// Markdown for assistant replies: GFM tables, code and $inline$ / $$block$$
+// math. Raw HTML is never rendered and unsafe URLs are stripped by
+// react-markdown's defaults. Links to page anchors (`[text](#results)`) become
+// citation chips that jump to that section.
+
+const baseComponents: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 last:mb-0 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 last:mb-0 space-y-1">{children}</ol>,
+  h1: ({ children }) => <h4 className="font-bold text-base mb-2">{children}</h4>,
+  h2: ({ children }) => <h4 className="font-bold mb-2">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-bold mb-1">{children}</h5>,
+  blockquote: ({ children }) => <blockquote className="border-l-2 border-ocean/50 pl-3 italic text-slate-500 dark:text-slate-400 mb-2">{children}</blockquote>,
+  code: ({ children }) => <code className="px-1 py-0.5 rounded bg-slate-100 dark:bg-slate-900 font-mono text-[0.85em]">{children}</code>,
+  pre: ({ children }) => (
+    <pre className="mb-2 last:mb-0 p-3 rounded-lg bg-slate-900 text-slate-100 text-xs overflow-x-auto [&_code]:bg-transparent [&_code]:p-0">{children}</pre>
+  ),
+  table: ({ children }) => (
+    <div className="mb-2 last:mb-0 overflow-x-auto">
+      <table className="w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-2 py-1 text-left font-bold border-b border-slate-200 dark:border-slate-600">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-2 py-1 border-b border-slate-100 dark:border-slate-700 font-mono">{children}</td>,
+};
+
+export const ChatMarkdown: React.FC<{ text: string; onCite: (sectionId: string) => void }> = ({ text, onCite }) => {
+  const components: Components = {
+    ...baseComponents,
+    a: ({ href, children }) => {
+      const section = resolveSectionLink(href);
+      if (section) {
+        return (
+          <a
+            href={href}
+            onClick={(e) => { e.preventDefault(); onCite(section.id); }}
+            title={`Go to ${section.label}`}
+            className="inline-flex items-center gap-0.5 px-1.5 rounded-md bg-ocean/10 text-ocean font-bold text-xs align-baseline hover:bg-ocean hover:text-ocean-fg transition-colors"
+          >
+            <Hash size={10} />{children}
+          </a>
+        );
+      }
+      // Anchors we don't render would scroll nowhere; show the text only.
+      if (!href || href.startsWith('#')) return <>{children}</>;
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-0.5 text-ocean underline underline-offset-2">
+          {children}<ExternalLink size={10} />
+        </a>
+      );
+    },
+  };
+
+  return (
+    <Markdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={components}>
+      {text}
+    </Markdown>
+  );
+};
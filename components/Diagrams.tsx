@@ -3,29 +3,124 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useId, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Map, Server, Activity, BarChart2, Zap, Clock, Info, MousePointerClick } from 'lucide-react';
+import { Map, Globe, Server, Activity, Zap, Clock, Info, MousePointerClick, ScatterChart, Table2, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { useLocationManifest } from '../hooks/useLocationManifest';
+import { useElementWidth } from '../hooks/useElementWidth';
+import { useRovingFocus } from '../hooks/useRovingFocus';
+import { MAP_HEIGHT, MAP_WIDTH, STATE_BORDERS, STATE_PATHS, LocationCluster, clusterLocations, projectLocations } from '../lib/geo';
+import { US_STATES } from '../data/states';
+import { EMPTY_FILTER, filterLocations, isFilterActive, summarizeLocations } from '../data/locations';
+import type { LocationFilter, SampleLocation } from '../types';
+import { SampleViewer } from './SampleViewer';
+import { SatelliteScene } from './QuantumScene';
+import { locationsCentroid } from '../lib/globe';
+import type { ScenePalette } from '../lib/theme';
+import { BENCHMARK_METRICS, BenchmarkMetric, CHART_ACCURACY_METRICS, CHART_COST_METRICS, ChartAxes, DEFAULT_CHART_AXES, metricValue, reportedMetrics } from '../data/benchmarks';
+import { linearScale, niceTicks, paddedDomain, paretoFrontier } from '../lib/chart';
+import type { ArchitectureStep } from '../data/sections';
+import { CONTENT, OUR_MODEL, MOST_ACCURATE_MODEL, formatCompact, formatCount, formatKilo } from '../data/content';
+
+const { dataset, model: MODEL, benchmarks } = CONTENT;
+
+// Hover is a mouse/pen affordance; a touch "hover" is really a tap, handled by onClick.
+const isHoverPointer = (e: React.PointerEvent) => e.pointerType !== 'touch';
 
 // --- DATASET MAP DIAGRAM ---
-export const DatasetMap: React.FC = () => {
-  // A simplified abstract representation of the US map distribution
-  // heavily weighted on FL, Great Lakes, East Coast, West Coast.
-  
-  const locations = [
-      // West Coast
-      { x: '10%', y: '20%', label: 'WA' }, { x: '10%', y: '30%', label: 'OR' }, { x: '12%', y: '50%', label: 'CA' },
-      // Mountain
-      { x: '30%', y: '35%', label: 'CO' },
-      // Midwest / Lakes
-      { x: '60%', y: '30%', label: 'IL' }, { x: '62%', y: '32%', label: 'IN' }, { x: '55%', y: '25%', label: 'WI' },
-      // South
-      { x: '45%', y: '70%', label: 'TX' }, { x: '55%', y: '65%', label: 'LA' },
-      // East Coast
-      { x: '85%', y: '30%', label: 'NY' }, { x: '82%', y: '40%', label: 'PA' }, { x: '80%', y: '50%', label: 'NC' }, { x: '80%', y: '80%', label: 'FL' },
-      // New England
-      { x: '90%', y: '20%', label: 'ME' }
-  ];
+const CLUSTER_RADIUS_PX = 14;
+
+// Shown with the map and globe while the manifest is a synthetic stand-in.
+const PlaceholderNotice: React.FC = () => (
+  <p className="text-xs text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded px-2 py-1 mb-4 self-start z-10 max-w-sm">
+    <strong>Placeholder locations.</strong> Positions, image counts and class mix are illustrative until the dataset export ships; only the totals match the paper.
+  </p>
+);
+
+/**
+ * Shared by the map and globe views. The selected location and the sample
+ * viewer's mask opacity may be controlled (App keeps them in the URL).
+ */
+export interface DatasetViewProps {
+  filter?: LocationFilter;
+  selectedLocation?: string | null;
+  onSelectLocation?: (id: string | null) => void;
+  maskOpacity?: number;
+  onMaskOpacityChange?: (opacity: number) => void;
+}
+
+/** Controlled when `selectedLocation` is given, otherwise internal. */
+const useLocationSelection = ({ selectedLocation, onSelectLocation }: DatasetViewProps) => {
+  const [own, setOwn] = useState<string | null>(null);
+  const select = (id: string | null) => {
+    setOwn(id);
+    onSelectLocation?.(id);
+  };
+  return [selectedLocation !== undefined ? selectedLocation : own, select] as const;
+};
+
+// Clicking a cluster opens the sample viewer on it; the selected location is
+// the one shown there, so a link can reopen the viewer on it. On touch the
+// first tap shows the cluster's details and a second one opens it. Clusters
+// are one Tab stop, arrowed through west to east.
+export const DatasetMap: React.FC<DatasetViewProps> = (props) => {
+  const { filter = EMPTY_FILTER, maskOpacity, onMaskOpacityChange } = props;
+  const manifest = useLocationManifest();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const width = useElementWidth(containerRef, MAP_WIDTH);
+  const scale = width > 0 ? width / MAP_WIDTH : 1;
+  const [hoveredCluster, setHoveredCluster] = useState<string | null>(null);
+  // Details shown without a hovering pointer: keyboard focus or a first tap.
+  const [detailCluster, setDetailCluster] = useState<string | null>(null);
+  const lastPointer = useRef('mouse');
+  const [selectedId, select] = useLocationSelection(props);
+  const [openCluster, setOpenCluster] = useState<SampleLocation[] | null>(null);
+
+  const allLocations = manifest.status === 'ready' ? manifest.locations : [];
+  const placeholder = manifest.status === 'ready' && manifest.placeholder;
+  const selected = allLocations.find(l => l.id === selectedId);
+  // The clicked cluster while it holds the selection; a location alone when opened from a link.
+  const openSample = selected ? (openCluster?.some(l => l.id === selected.id) ? openCluster : [selected]) : null;
+  const locations = useMemo(() => filterLocations(allLocations, filter), [allLocations, filter]);
+  const totals = useMemo(() => summarizeLocations(locations, filter.classes), [locations, filter.classes]);
+  const filtered = isFilterActive(filter);
+  const selectedFips = filter.state ? US_STATES[filter.state].fips : null;
+  const projected = useMemo(() => projectLocations(locations), [locations]);
+  // Merge distance is fixed on screen, so small renders cluster more aggressively.
+  const clusters = useMemo(
+    () => clusterLocations(projected, CLUSTER_RADIUS_PX / scale).sort((a, b) => a.x - b.x),
+    [projected, scale],
+  );
+  const sampledFips = useMemo(() => new Set(locations.map(l => US_STATES[l.state].fips)), [locations]);
+  const hovered = clusters.find(c => c.id === (hoveredCluster ?? detailCluster));
+  const byState = useMemo(() => {
+    const rows: Record<string, { name: string; locations: number; images: number }> = {};
+    for (const l of locations) {
+      const row = rows[l.state] ?? (rows[l.state] = { name: US_STATES[l.state].name, locations: 0, images: 0 });
+      row.locations++;
+      row.images += l.images;
+    }
+    return Object.values(rows).sort((a, b) => a.name.localeCompare(b.name));
+  }, [locations]);
+
+  const openSamples = (c: LocationCluster) => {
+    setOpenCluster(c.members);
+    select(c.members[0].id);
+  };
+  const { itemProps } = useRovingFocus(clusters.length, {
+    onFocusItem: i => setDetailCluster(clusters[i].id),
+    onActivate: i => openSamples(clusters[i]),
+  });
+
+  const describeCluster = (c: LocationCluster) => {
+    const suffix = placeholder ? ' (placeholder)' : '';
+    if (c.members.length === 1) {
+      const loc = c.members[0];
+      return `${loc.id} · ${US_STATES[loc.state].name} · ${loc.images} images${suffix}`;
+    }
+    const stateCount = new Set(c.members.map(m => m.state)).size;
+    return `${c.members.length} locations · ${stateCount} ${stateCount === 1 ? 'state' : 'states'} · ${c.images} images${suffix}`;
+  };
 
   return (
     <div className="flex flex-col items-center p-6 bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 w-full relative overflow-hidden group transition-colors duration-300">
@@ -34,60 +129,260 @@ export const DatasetMap: React.FC = () => {
       </div>
       
       <h3 className="font-serif text-2xl mb-2 text-slate-800 dark:text-white self-start z-10">Geographic Coverage</h3>
-      <p className="text-sm text-slate-500 dark:text-slate-400 mb-8 self-start max-w-sm z-10">
-        1,483 images collected from 147 unique locations across 44 states. Highlights include heavy sampling in coastal and lake regions.
+      <p className={`text-sm text-slate-500 dark:text-slate-400 ${placeholder ? 'mb-4' : 'mb-8'} self-start max-w-sm z-10`}>
+        {formatCount(dataset.images)} images collected from {dataset.locations} unique locations across {dataset.states} states. Highlights include heavy sampling in coastal and lake regions.
       </p>
+      {placeholder && <PlaceholderNotice />}
 
-      <div className="relative w-full aspect-video bg-slate-100 dark:bg-slate-900 rounded-lg border border-slate-300 dark:border-slate-700 p-4 transition-colors">
-         {/* Abstract US Shape */}
-         <svg viewBox="0 0 100 60" className="w-full h-full opacity-20 pointer-events-none dark:opacity-30">
-            <path d="M 5 10 L 30 10 L 35 30 L 50 25 L 90 5 L 95 20 L 80 40 L 85 55 L 70 55 L 50 50 L 40 55 L 20 45 L 5 25 Z" fill="currentColor" className="text-slate-400 dark:text-slate-500"/>
+      <div ref={containerRef} className="relative w-full aspect-[975/610] bg-slate-100 dark:bg-slate-900 rounded-lg border border-slate-300 dark:border-slate-700 transition-colors">
+         <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-full" role="group" aria-label="Sample locations">
+            {/* State outlines (Albers USA, AK/HI inset) */}
+            <g className="text-slate-300 dark:text-slate-700">
+              {STATE_PATHS.map(({ fips, d }) => (
+                <path
+                  key={fips}
+                  d={d}
+                  fill="currentColor"
+                  className={
+                    fips === selectedFips
+                      ? 'text-cyan-200 dark:text-cyan-900'
+                      : sampledFips.has(fips) ? 'text-slate-300 dark:text-slate-700' : 'text-slate-200 dark:text-slate-800'
+                  }
+                />
+              ))}
+            </g>
+            <path d={STATE_BORDERS} fill="none" strokeWidth={0.75 / scale} className="stroke-white dark:stroke-slate-900" />
+
+            {/* Data Points */}
+            {clusters.map((c, i) => {
+              const r = (4 + Math.sqrt(c.images) * 0.6) / scale;
+              return (
+                <motion.g
+                  key={c.id}
+                  {...itemProps(i)}
+                  role="button"
+                  aria-label={`${describeCluster(c)}. Open samples`}
+                  aria-haspopup="dialog"
+                  className="group/point cursor-pointer outline-none"
+                  onPointerEnter={(e) => isHoverPointer(e) && setHoveredCluster(c.id)}
+                  onPointerLeave={(e) => isHoverPointer(e) && setHoveredCluster(null)}
+                  onPointerDown={(e) => {
+                    lastPointer.current = e.pointerType;
+                  }}
+                  onClick={() => {
+                    if (lastPointer.current === 'touch' && detailCluster !== c.id) setDetailCluster(c.id);
+                    else openSamples(c);
+                  }}
+                  onBlur={() => setDetailCluster(d => (d === c.id ? null : d))}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: Math.min(i * 0.01, 0.8) }}
+                >
+                  <circle
+                    cx={c.x}
+                    cy={c.y}
+                    r={r * 1.3 + 3 / scale}
+                    fill="none"
+                    strokeWidth={2 / scale}
+                    className="hidden group-focus-visible/point:block stroke-highlight"
+                  />
+                  <circle
+                    cx={c.x}
+                    cy={c.y}
+                    r={hovered === c ? r * 1.3 : r}
+                    strokeWidth={1.5 / scale}
+                    className="fill-ocean stroke-white dark:stroke-slate-800 transition-all"
+                    fillOpacity={c.members.length > 1 ? 0.85 : 1}
+                  />
+                  {c.members.length > 1 && (
+                    <text
+                      x={c.x}
+                      y={c.y}
+                      dy="0.35em"
+                      textAnchor="middle"
+                      fontSize={10 / scale}
+                      className="fill-white font-bold pointer-events-none select-none"
+                    >
+                      {c.members.length}
+                    </text>
+                  )}
+                </motion.g>
+              );
+            })}
          </svg>
 
-         {/* Data Points */}
-         {locations.map((loc, i) => (
-             <motion.div
-                key={i}
-                className="absolute w-3 h-3 bg-ocean rounded-full shadow-md border border-white dark:border-slate-800 cursor-pointer group/point"
-                style={{ left: loc.x, top: loc.y }}
-                whileHover={{ scale: 1.5 }}
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                transition={{ delay: i * 0.1 }}
+         {hovered && (
+             <div
+                aria-hidden="true"
+                className="absolute -translate-x-1/2 -translate-y-full bg-slate-800 text-white text-[10px] px-2 py-1 rounded whitespace-nowrap z-20 pointer-events-none"
+                style={{ left: hovered.x * scale, top: hovered.y * scale - 10 }}
              >
-                 <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-slate-800 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover/point:opacity-100 transition-opacity whitespace-nowrap z-20 pointer-events-none">
-                     {loc.label} Sample
-                 </div>
-             </motion.div>
-         ))}
+                 {describeCluster(hovered)}
+             </div>
+         )}
+
+         {manifest.status === 'ready' && locations.length === 0 && (
+             <div className="absolute inset-0 flex items-center justify-center text-xs font-mono text-slate-500 dark:text-slate-400">
+                 No locations match this filter.
+             </div>
+         )}
+
+         {manifest.status !== 'ready' && (
+             <div className="absolute inset-0 flex items-center justify-center text-xs font-mono text-slate-500 dark:text-slate-400">
+                 {manifest.status === 'loading' ? 'Loading sample locations…' : `Could not load locations: ${manifest.error}`}
+             </div>
+         )}
       </div>
       
+      <table className="sr-only">
+        <caption>Sample locations by state{filtered ? ' (filtered)' : ''}{placeholder ? ', placeholder data' : ''}</caption>
+        <thead>
+          <tr><th scope="col">State</th><th scope="col">Locations</th><th scope="col">Images</th></tr>
+        </thead>
+        <tbody>
+          {byState.map(row => (
+            <tr key={row.name}><th scope="row">{row.name}</th><td>{row.locations}</td><td>{formatCount(row.images)}</td></tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-6 flex justify-between w-full text-xs text-slate-500 dark:text-slate-400 font-mono border-t border-slate-100 dark:border-slate-700 pt-4">
+          <div className="flex items-center gap-2">
+             <div className="w-2 h-2 bg-ocean rounded-full"></div> Sample Location
+             <span className="text-slate-400 dark:text-slate-500">(numbered = cluster, click or tap twice to view)</span>
+          </div>
+          {manifest.status === 'ready' && filtered ? (
+              <div className="text-right">
+                  {totals.locations} locations · {formatCount(totals.images)} images · {formatCompact(totals.pixels)} pixels
+                  {filter.classes.length > 0 && <span className="block text-ocean">{formatCompact(totals.classPixels)} pixels of selected classes</span>}
+              </div>
+          ) : (
+              <div>Total: {formatCompact(dataset.labeledPixels)} Pixels</div>
+          )}
+      </div>
+
+      {openSample && selected && (
+        <SampleViewer
+          locations={openSample}
+          activeId={selected.id}
+          onActiveChange={select}
+          opacity={maskOpacity}
+          onOpacityChange={onMaskOpacityChange}
+          onClose={() => {
+            setOpenCluster(null);
+            select(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+// --- DATASET GLOBE ---
+// The same locations and filter as DatasetMap, on the 3D globe. Filtering to a
+// state flies there; clicking a location zooms in and offers its samples.
+export const DatasetGlobe: React.FC<DatasetViewProps & { palette: ScenePalette }> = (props) => {
+  const { filter = EMPTY_FILTER, maskOpacity, onMaskOpacityChange, palette } = props;
+  const manifest = useLocationManifest();
+  const [selectedId, select] = useLocationSelection(props);
+  const [openSample, setOpenSample] = useState<SampleLocation[] | null>(null);
+
+  const allLocations = manifest.status === 'ready' ? manifest.locations : [];
+  const placeholder = manifest.status === 'ready' && manifest.placeholder;
+  const locations = useMemo(() => filterLocations(allLocations, filter), [allLocations, filter]);
+  const focus = useMemo(() => (filter.state ? locationsCentroid(locations) : null), [filter.state, locations]);
+  // A selection hidden by a new filter no longer applies.
+  const selected = locations.find(l => l.id === selectedId) ?? null;
+
+  return (
+    <div className="flex flex-col items-center p-6 bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 w-full relative overflow-hidden group transition-colors duration-300">
+      <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity text-slate-900 dark:text-white">
+          <Globe size={120} />
+      </div>
+
+      <h3 className="font-serif text-2xl mb-2 text-slate-800 dark:text-white self-start z-10">Globe View</h3>
+      <p className={`text-sm text-slate-500 dark:text-slate-400 ${placeholder ? 'mb-4' : 'mb-8'} self-start max-w-sm z-10`}>
+        The {dataset.locations} sample locations as seen from orbit. Drag to rotate, scroll to zoom and click a location to fly to it.
+      </p>
+      {placeholder && <PlaceholderNotice />}
+
+      <div className="relative w-full aspect-[975/610] bg-slate-950 rounded-lg border border-slate-300 dark:border-slate-700 overflow-hidden" style={{ backgroundColor: palette.background }}>
+         <SatelliteScene
+            locations={locations}
+            selectedId={selected?.id ?? null}
+            focus={focus}
+            palette={palette}
+            placeholder={placeholder}
+            onSelect={l => select(l?.id ?? null)}
+         />
+
+         {selected && (
+             <div className="absolute left-3 bottom-3 flex items-center gap-3 bg-slate-800/90 text-white text-xs px-3 py-2 rounded-lg z-10">
+                 <span className="font-mono">{selected.id} · {US_STATES[selected.state].name} · {selected.images} images{placeholder && ' (placeholder)'}</span>
+                 <button onClick={() => setOpenSample([selected])} className="font-bold text-cyan-300 hover:text-white transition-colors">
+                     View samples
+                 </button>
+             </div>
+         )}
+
+         {manifest.status === 'ready' && locations.length === 0 && (
+             <div className="absolute inset-0 flex items-center justify-center text-xs font-mono text-slate-400 pointer-events-none">
+                 No locations match this filter.
+             </div>
+         )}
+
+         {manifest.status !== 'ready' && (
+             <div className="absolute inset-0 flex items-center justify-center text-xs font-mono text-slate-400 pointer-events-none">
+                 {manifest.status === 'loading' ? 'Loading sample locations…' : `Could not load locations: ${manifest.error}`}
+             </div>
+         )}
+      </div>
+
       <div className="mt-6 flex justify-between w-full text-xs text-slate-500 dark:text-slate-400 font-mono border-t border-slate-100 dark:border-slate-700 pt-4">
           <div className="flex items-center gap-2">
              <div className="w-2 h-2 bg-ocean rounded-full"></div> Sample Location
+             <div className="w-2 h-2 ml-2 border border-highlight rounded-full"></div> Satellite footprint
           </div>
-          <div>Total: 1.48B Pixels</div>
+          <div>{locations.length} of {dataset.locations} locations</div>
       </div>
+
+      {openSample && (
+        <SampleViewer locations={openSample} opacity={maskOpacity} onOpacityChange={onMaskOpacityChange} onClose={() => setOpenSample(null)} />
+      )}
     </div>
   );
 };
 
 // --- ARCHITECTURE DIAGRAM ---
-export const ArchitectureDiagram: React.FC = () => {
-  const [hoveredStep, setHoveredStep] = useState<string | null>(null);
+const PIPELINE_STEPS = ['input', 'patch', 'model', 'output'] as const;
+
+// `activeStep` is set from outside (the assistant). A hovering pointer takes
+// precedence, then a step chosen by keyboard focus or a tap (tap again to close).
+export const ArchitectureDiagram: React.FC<{ activeStep?: ArchitectureStep | null }> = ({ activeStep = null }) => {
+  const [pointerStep, setPointerStep] = useState<string | null>(null);
+  const [chosenStep, setChosenStep] = useState<string | null>(null);
+  const hoveredStep = pointerStep ?? chosenStep ?? activeStep;
+  const panelId = useId();
+  const { itemProps } = useRovingFocus(PIPELINE_STEPS.length, {
+    onFocusItem: i => setChosenStep(PIPELINE_STEPS[i]),
+    onActivate: i => setChosenStep(s => (s === PIPELINE_STEPS[i] ? null : PIPELINE_STEPS[i])),
+  });
+
+  const scene = `${formatKilo(MODEL.exampleScene.width)} x ${formatKilo(MODEL.exampleScene.height)} pixels`;
+  const patch = `${MODEL.patchSize}x${MODEL.patchSize}`;
 
   const steps = {
     input: {
       title: "High-Resolution Input",
-      desc: "Ingests massive satellite imagery (e.g., 21k x 12k pixels) which exceeds the memory limits of standard GPUs. This requires preprocessing before the neural network can handle it."
+      desc: `Ingests massive satellite imagery (e.g., ${scene}) which exceeds the memory limits of standard GPUs. This requires preprocessing before the neural network can handle it.`
     },
     patch: {
       title: "Patch Compression",
-      desc: "Smart Tiling: Slices large scenes into overlapping 512x512 patches. This allows the model to process 44 states worth of data on just 4GB VRAM while preserving detail."
+      desc: `Smart Tiling: Slices large scenes into overlapping ${patch} patches. This allows the model to process ${dataset.states} states worth of data on just ${OUR_MODEL.vramGb}GB VRAM while preserving detail.`
     },
     model: {
       title: "Depth-wise Separable Convolutions",
-      desc: "The Core Innovation: Splits standard convolution into spatial (depth-wise) and channel (point-wise) phases. Reduces parameters by ~40% vs standard U-Net, enabling real-time 6 FPS inference."
+      desc: `The Core Innovation: Splits standard convolution into spatial (depth-wise) and channel (point-wise) phases. Reduces parameters by ~${MODEL.parameterReductionPct}% vs standard U-Net, enabling real-time ${OUR_MODEL.fps} FPS inference.`
     },
     output: {
       title: "Binary Segmentation Mask",
@@ -95,33 +390,37 @@ export const ArchitectureDiagram: React.FC = () => {
     }
   };
 
-  const getStepClass = (step: string) => 
-    `transition-all duration-300 p-3 rounded-lg border border-transparent cursor-help relative ${
-      hoveredStep === step 
-        ? 'bg-slate-800 border-cyan-500/50 shadow-lg shadow-cyan-900/20' 
+  const stepProps = (step: typeof PIPELINE_STEPS[number]) => ({
+    ...itemProps(PIPELINE_STEPS.indexOf(step)),
+    role: 'button',
+    'aria-expanded': hoveredStep === step,
+    'aria-controls': panelId,
+    className: `transition-all duration-300 p-3 rounded-lg border border-transparent cursor-help relative outline-none focus-visible:ring-2 focus-visible:ring-cyan-400 ${
+      hoveredStep === step
+        ? 'bg-slate-800 border-cyan-500/50 shadow-lg shadow-cyan-900/20'
         : 'hover:bg-slate-800/50 hover:border-slate-700'
-    }`;
+    }`,
+    onPointerEnter: (e: React.PointerEvent) => isHoverPointer(e) && setPointerStep(step),
+    onPointerLeave: (e: React.PointerEvent) => isHoverPointer(e) && setPointerStep(null),
+    onClick: () => setChosenStep(s => (s === step ? null : step)),
+  });
 
   return (
     <div className="flex flex-col items-center p-8 bg-slate-900 rounded-xl border border-slate-700 w-full h-full text-slate-200 shadow-2xl">
       <div className="flex items-center justify-between w-full mb-6">
         <div className="flex items-center gap-3">
             <Server className="text-cyan-400" />
-            <h3 className="font-serif text-xl text-white">U-Net+ Pipeline</h3>
+            <h3 className="font-serif text-xl text-white">{MODEL.name} Pipeline</h3>
         </div>
         <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-800 px-3 py-1 rounded-full border border-slate-700 select-none">
             <MousePointerClick size={14} />
-            <span>Hover stages for details</span>
+            <span>Hover or tap stages for details</span>
         </div>
       </div>
 
-      <div className="flex flex-col gap-2 w-full max-w-md relative mb-6">
+      <div role="group" aria-label={`${MODEL.name} pipeline stages`} className="flex flex-col gap-2 w-full max-w-md relative mb-6">
           {/* Step 1: Input */}
-          <div 
-            className={getStepClass('input')}
-            onMouseEnter={() => setHoveredStep('input')}
-            onMouseLeave={() => setHoveredStep(null)}
-          >
+          <div {...stepProps('input')}>
               <div className="flex items-center gap-4">
                   <div className="w-16 h-16 bg-white/5 rounded-lg border border-white/10 flex items-center justify-center text-xs font-mono text-cyan-200 relative overflow-hidden group">
                       <div className="absolute inset-0 bg-cyan-500/10 group-hover:bg-cyan-500/20 transition-colors"></div>
@@ -140,11 +439,7 @@ export const ArchitectureDiagram: React.FC = () => {
           </div>
 
           {/* Step 2: Patch Compression */}
-          <div 
-            className={getStepClass('patch')}
-            onMouseEnter={() => setHoveredStep('patch')}
-            onMouseLeave={() => setHoveredStep(null)}
-          >
+          <div {...stepProps('patch')}>
              <div className="flex items-center gap-4 pl-8">
                   <div className="w-1 bg-cyan-500 h-12 relative">
                       <motion.div 
@@ -161,11 +456,7 @@ export const ArchitectureDiagram: React.FC = () => {
           </div>
 
           {/* Step 3: Encoder-Decoder */}
-          <div 
-            className={getStepClass('model')}
-            onMouseEnter={() => setHoveredStep('model')}
-            onMouseLeave={() => setHoveredStep(null)}
-          >
+          <div {...stepProps('model')}>
               <div className="flex items-center gap-4">
                   <div className="w-16 h-24 bg-gradient-to-b from-blue-600 to-cyan-500 rounded-lg flex flex-col items-center justify-center text-[10px] text-white font-bold shadow-lg shadow-cyan-900/50 z-10 relative">
                       {hoveredStep === 'model' && (
@@ -183,17 +474,13 @@ export const ArchitectureDiagram: React.FC = () => {
                             Depth-wise Separable Conv
                             {hoveredStep === 'model' && <Zap size={14} className="text-yellow-400 animate-pulse"/>}
                        </div>
-                       <p className="text-xs text-slate-400 leading-tight">Replaces standard convolution to reduce parameters by 40%.</p>
+                       <p className="text-xs text-slate-400 leading-tight">Replaces standard convolution to reduce parameters by {MODEL.parameterReductionPct}%.</p>
                    </div>
               </div>
           </div>
 
           {/* Step 4: Output */}
-          <div 
-            className={getStepClass('output')}
-            onMouseEnter={() => setHoveredStep('output')}
-            onMouseLeave={() => setHoveredStep(null)}
-          >
+          <div {...stepProps('output')}>
               <div className="flex items-center gap-4">
                   <div className="w-16 h-16 bg-emerald-500/10 rounded-lg border border-emerald-500/30 flex items-center justify-center text-xs font-mono text-emerald-300 relative">
                       Mask
@@ -219,7 +506,7 @@ export const ArchitectureDiagram: React.FC = () => {
       </div>
       
       {/* Dynamic Info Panel */}
-      <div className="w-full bg-slate-800 rounded-xl p-5 border border-slate-700 min-h-[100px] transition-all relative overflow-hidden">
+      <div id={panelId} aria-live="polite" className="w-full bg-slate-800 rounded-xl p-5 border border-slate-700 min-h-[100px] transition-all relative overflow-hidden">
         <div className="absolute top-0 right-0 p-4 opacity-5 pointer-events-none">
             <Info size={80} />
         </div>
@@ -243,7 +530,7 @@ export const ArchitectureDiagram: React.FC = () => {
                     </>
                 ) : (
                     <div className="flex flex-col items-center justify-center h-full text-slate-500 py-1">
-                        <p className="text-sm italic">Hover over the pipeline stages above to see technical details.</p>
+                        <p className="text-sm italic">Hover over or tap the pipeline stages above to see technical details.</p>
                     </div>
                 )}
             </motion.div>
@@ -254,42 +541,86 @@ export const ArchitectureDiagram: React.FC = () => {
 };
 
 // --- PERFORMANCE CHART ---
-export const PerformanceChart: React.FC = () => {
-    // Data from Table 3 and Abstract
-    // Model: [F1 Score, FPS]
-    const data = [
-        { 
-            name: 'DeepLabV3+', 
-            f1: 92.0, 
-            fps: 2.1, 
-            color: 'bg-slate-400',
-            details: "Standard CNN baseline. Moderate accuracy but slow inference." 
-        },
-        { 
-            name: 'MSResNet-34', 
-            f1: 95.4, 
-            fps: 1.9, 
-            color: 'bg-slate-400',
-            details: "Highest pixel accuracy, but computationally heavy (10.7GB RAM)."
-        },
-        { 
-            name: 'SegFormer-B0', 
-            f1: 94.1, 
-            fps: 4.5, 
-            color: 'bg-slate-400',
-            details: "Transformer-based. Good balance, but U-Net+ is faster."
-        },
-        { 
-            name: 'U-Net+ (Ours)', 
-            f1: 93.6, 
-            fps: 6.0, 
-            color: 'bg-ocean',
-            details: "Optimized for speed (6 FPS). Only 4.2GB VRAM required."
-        },
-    ];
-
-    const maxFps = 7;
+type SortKey = BenchmarkMetric | 'name';
+
+const CHART = { width: 560, height: 340, left: 52, right: 20, top: 20, bottom: 44 };
+const TABLE_COLUMNS = reportedMetrics(['f1', 'iou', 'fps', 'vramGb', 'paramsM']);
+
+// `highlightedModel` (a model id) is set from outside, e.g. by the assistant.
+// Points are one Tab stop, arrowed through left to right; focusing or tapping
+// one pins its tooltip. `axes` may be controlled (App keeps them in the URL); otherwise the chart keeps its own.
+export const PerformanceChart: React.FC<{
+    highlightedModel?: string | null;
+    axes?: ChartAxes;
+    onAxesChange?: (axes: ChartAxes) => void;
+}> = ({ highlightedModel = null, axes: controlledAxes, onAxesChange }) => {
+    const data = benchmarks.models.map((model) => ({
+        ...model,
+        name: model.isOurs ? `${model.name} (Ours)` : model.name,
+        details: model.vramGb !== undefined ? `${model.summary} ${model.vramGb}GB VRAM.` : model.summary,
+    }));
+    const speedup = Math.round(OUR_MODEL.fps / MOST_ACCURATE_MODEL.fps);
+
+    const [ownAxes, setOwnAxes] = useState<ChartAxes>(DEFAULT_CHART_AXES);
+    const axes = controlledAxes ?? ownAxes;
+    const setAxes = (next: ChartAxes) => {
+        setOwnAxes(next);
+        onAxesChange?.(next);
+    };
+    const [view, setView] = useState<'chart' | 'table'>('chart');
+    const [sort, setSort] = useState<{ key: SortKey; dir: 'asc' | 'desc' }>({ key: 'f1', dir: 'desc' });
     const [hoveredModel, setHoveredModel] = useState<string | null>(null);
+    const [pinnedModel, setPinnedModel] = useState<string | null>(null);
+
+    const xInfo = BENCHMARK_METRICS[axes.x];
+    const yInfo = BENCHMARK_METRICS[axes.y];
+    const xOf = (m: typeof data[number]) => metricValue(m, axes.x)!;
+    const yOf = (m: typeof data[number]) => metricValue(m, axes.y)!;
+    const plotted = data
+        .filter(m => metricValue(m, axes.x) !== undefined && metricValue(m, axes.y) !== undefined)
+        .sort((a, b) => xOf(a) - xOf(b));
+    const missing = data.filter(m => !plotted.includes(m));
+    const frontier = paretoFrontier(plotted, xOf, yOf, xInfo.better, yInfo.better);
+
+    const xDomain = paddedDomain(plotted.map(xOf).concat(0));
+    const yDomain = paddedDomain(plotted.map(yOf));
+    const sx = linearScale(xDomain, [CHART.left, CHART.width - CHART.right]);
+    const sy = linearScale(yDomain, [CHART.height - CHART.bottom, CHART.top]);
+
+    const sorted = [...data].sort((a, b) => {
+        if (sort.key === 'name') return sort.dir === 'asc' ? a.name.localeCompare(b.name) : b.name.localeCompare(a.name);
+        const va = metricValue(a, sort.key);
+        const vb = metricValue(b, sort.key);
+        // Unreported values always sink to the bottom.
+        if (va === undefined) return vb === undefined ? 0 : 1;
+        if (vb === undefined) return -1;
+        return sort.dir === 'asc' ? va - vb : vb - va;
+    });
+    const toggleSort = (key: SortKey) =>
+        setSort(s => (s.key === key ? { key, dir: s.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: key === 'name' ? 'asc' : 'desc' }));
+
+    const shownModel = hoveredModel ?? pinnedModel ?? highlightedModel;
+    const hovered = plotted.find(m => m.id === shownModel);
+    const togglePin = (id: string) => setPinnedModel(p => (p === id ? null : id));
+    const { itemProps } = useRovingFocus(plotted.length, {
+        onFocusItem: i => setPinnedModel(plotted[i].id),
+        onActivate: i => togglePin(plotted[i].id),
+    });
+    const describePoint = (m: typeof data[number]) =>
+        `${m.name}: ${yInfo.label} ${yInfo.format(yOf(m))}, ${xInfo.label} ${xInfo.format(xOf(m))}${frontier.includes(m) ? ', on the Pareto frontier' : ''}`;
+
+    const axisSelect = (axis: keyof ChartAxes, options: BenchmarkMetric[]) => (
+        <label className="flex items-center gap-2">
+            <span className="text-slate-400">{axis === 'x' ? 'X' : 'Y'}</span>
+            <select
+                value={axes[axis]}
+                onChange={(e) => setAxes({ ...axes, [axis]: e.target.value as BenchmarkMetric })}
+                className="px-2 py-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded text-slate-700 dark:text-slate-200 outline-none focus:border-ocean"
+            >
+                {options.map(m => <option key={m} value={m}>{BENCHMARK_METRICS[m].label}</option>)}
+            </select>
+        </label>
+    );
 
     return (
         <div className="flex flex-col md:flex-row p-8 w-full gap-8 bg-white dark:bg-slate-800 transition-colors duration-300">
@@ -299,62 +630,204 @@ export const PerformanceChart: React.FC = () => {
                     <h3 className="text-2xl font-serif text-slate-900 dark:text-white">Efficiency vs Accuracy</h3>
                 </div>
                 <p className="text-slate-600 dark:text-slate-300 mb-6 leading-relaxed">
-                    While MSResNet offers slightly higher raw accuracy, it is significantly slower. U-Net+ provides the best balance, delivering high accuracy at <strong>3x the speed</strong> of complex models.
+                    While {MOST_ACCURATE_MODEL.name} offers slightly higher raw accuracy, it is significantly slower. {OUR_MODEL.name} provides the best balance, delivering high accuracy at <strong>{speedup}x the speed</strong> of complex models.
                 </p>
                 <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg border border-slate-200 dark:border-slate-700 inline-block">
-                    <div className="text-3xl font-bold text-ocean">6 FPS</div>
-                    <div className="text-xs uppercase font-bold text-slate-500 dark:text-slate-400">Inference Speed on RTX 3090</div>
+                    <div className="text-3xl font-bold text-ocean">{OUR_MODEL.fps} FPS</div>
+                    <div className="text-xs uppercase font-bold text-slate-500 dark:text-slate-400">Inference Speed on {benchmarks.hardware}</div>
                 </div>
+                <p className="mt-6 text-sm text-slate-500 dark:text-slate-400 leading-relaxed">
+                    Models on the dashed <strong>Pareto frontier</strong> can't be beaten on one axis without losing on the other.
+                </p>
             </div>
 
-            <div className="flex-[2] flex flex-col gap-6 justify-center">
-                {data.map((model) => (
-                    <div 
-                        key={model.name} 
-                        className="relative group"
-                        onMouseEnter={() => setHoveredModel(model.name)}
-                        onMouseLeave={() => setHoveredModel(null)}
-                    >
-                        <div className="flex justify-between text-sm font-bold text-slate-700 dark:text-slate-200 mb-1">
-                            <span>{model.name}</span>
-                            <span className="text-slate-500 dark:text-slate-400">{model.f1}% F1</span>
-                        </div>
-                        
+            <div className="flex-[2] flex flex-col gap-4 justify-center">
+                <div className="flex flex-wrap items-center gap-4 text-xs font-bold">
+                    <div className="flex rounded-full border border-slate-200 dark:border-slate-700 overflow-hidden">
+                        {(['chart', 'table'] as const).map(v => (
+                            <button
+                                key={v}
+                                onClick={() => setView(v)}
+                                aria-pressed={view === v}
+                                className={`flex items-center gap-1.5 px-3 py-1 transition-colors ${view === v ? 'bg-ocean text-ocean-fg' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                            >
+                                {v === 'chart' ? <ScatterChart size={14} /> : <Table2 size={14} />} {v === 'chart' ? 'Chart' : 'Table'}
+                            </button>
+                        ))}
+                    </div>
+                    {view === 'chart' && (
+                        <>
+                            {axisSelect('x', CHART_COST_METRICS)}
+                            {axisSelect('y', CHART_ACCURACY_METRICS)}
+                        </>
+                    )}
+                </div>
+
+                {view === 'chart' && plotted.length === 0 ? (
+                    <p className="py-16 text-center text-sm text-slate-500 dark:text-slate-400 italic">
+                        No model reports both {xInfo.label.toLowerCase()} and {yInfo.label} in {benchmarks.source}. Pick other axes or switch to the table.
+                    </p>
+                ) : view === 'chart' ? (
+                    <div className="relative">
+                        <svg
+                            viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+                            className="w-full h-auto text-slate-400 dark:text-slate-500"
+                            role="group"
+                            aria-label={`${yInfo.label} vs ${xInfo.label.toLowerCase()}`}
+                            onKeyDown={(e) => e.key === 'Escape' && setPinnedModel(null)}
+                        >
+                            {/* Grid + ticks */}
+                            {niceTicks(...yDomain).map(t => (
+                                <g key={`y${t}`}>
+                                    <line x1={CHART.left} x2={CHART.width - CHART.right} y1={sy(t)} y2={sy(t)} stroke="currentColor" strokeOpacity={0.2} />
+                                    <text x={CHART.left - 8} y={sy(t)} dy="0.35em" textAnchor="end" fontSize={11} fill="currentColor">{t}</text>
+                                </g>
+                            ))}
+                            {niceTicks(...xDomain).map(t => (
+                                <g key={`x${t}`}>
+                                    <line x1={sx(t)} x2={sx(t)} y1={CHART.top} y2={CHART.height - CHART.bottom} stroke="currentColor" strokeOpacity={0.1} />
+                                    <text x={sx(t)} y={CHART.height - CHART.bottom + 16} textAnchor="middle" fontSize={11} fill="currentColor">{t}</text>
+                                </g>
+                            ))}
+                            <text x={(CHART.left + CHART.width - CHART.right) / 2} y={CHART.height - 6} textAnchor="middle" fontSize={12} fontWeight="bold" fill="currentColor">
+                                {xInfo.label} ({xInfo.unit}, {xInfo.better} is better)
+                            </text>
+                            <text transform={`translate(14 ${(CHART.top + CHART.height - CHART.bottom) / 2}) rotate(-90)`} textAnchor="middle" fontSize={12} fontWeight="bold" fill="currentColor">
+                                {yInfo.label} ({yInfo.unit})
+                            </text>
+
+                            {/* Pareto frontier */}
+                            {frontier.length > 1 && (
+                                <motion.polyline
+                                    points={frontier.map(m => `${sx(xOf(m))},${sy(yOf(m))}`).join(' ')}
+                                    fill="none"
+                                    strokeWidth={2}
+                                    strokeDasharray="6 4"
+                                    className="stroke-ocean"
+                                    initial={{ pathLength: 0 }}
+                                    whileInView={{ pathLength: 1 }}
+                                    transition={{ duration: 1, delay: 0.2 }}
+                                />
+                            )}
+
+                            {/* Models */}
+                            {plotted.map((m, i) => {
+                                const onFrontier = frontier.includes(m);
+                                return (
+                                    <g
+                                        key={m.id}
+                                        {...itemProps(i)}
+                                        role="button"
+                                        aria-label={describePoint(m)}
+                                        aria-pressed={pinnedModel === m.id}
+                                        className="group/point cursor-pointer outline-none"
+                                        onPointerEnter={(e) => isHoverPointer(e) && setHoveredModel(m.id)}
+                                        onPointerLeave={(e) => isHoverPointer(e) && setHoveredModel(null)}
+                                        onClick={() => togglePin(m.id)}
+                                        onBlur={() => setPinnedModel(p => (p === m.id ? null : p))}
+                                    >
+                                        <circle cx={sx(xOf(m))} cy={sy(yOf(m))} r={14} className="hidden group-focus-visible/point:block fill-none stroke-highlight" strokeWidth={2} />
+                                        {onFrontier && <circle cx={sx(xOf(m))} cy={sy(yOf(m))} r={12} className="fill-ocean/10 stroke-ocean" strokeWidth={1} />}
+                                        {highlightedModel === m.id && <circle cx={sx(xOf(m))} cy={sy(yOf(m))} r={16} className="fill-none stroke-highlight animate-pulse" strokeWidth={2} />}
+                                        <circle
+                                            cx={sx(xOf(m))}
+                                            cy={sy(yOf(m))}
+                                            r={shownModel === m.id ? 9 : 7}
+                                            className={`${m.isOurs ? 'fill-ocean' : 'fill-slate-400'} stroke-white dark:stroke-slate-800 transition-all`}
+                                            strokeWidth={2}
+                                        />
+                                        <text
+                                            x={sx(xOf(m))}
+                                            y={sy(yOf(m)) - 14}
+                                            textAnchor="middle"
+                                            fontSize={11}
+                                            fontWeight="bold"
+                                            className={m.isOurs ? 'fill-ocean' : 'fill-slate-600 dark:fill-slate-300'}
+                                        >
+                                            {m.name}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                        </svg>
+
                         {/* Tooltip */}
                         <AnimatePresence>
-                            {hoveredModel === model.name && (
+                            {hovered && (
                                 <motion.div
+                                    aria-hidden="true"
                                     initial={{ opacity: 0, y: 10, x: '-50%' }}
                                     animate={{ opacity: 1, y: 0, x: '-50%' }}
                                     exit={{ opacity: 0, y: 5, x: '-50%' }}
                                     transition={{ duration: 0.2 }}
-                                    className="absolute left-1/2 -top-20 z-30 bg-slate-800 dark:bg-black text-white text-xs p-3 rounded-lg shadow-xl w-56 pointer-events-none"
+                                    className="absolute z-30 bg-slate-800 dark:bg-black text-white text-xs p-3 rounded-lg shadow-xl w-56 pointer-events-none -translate-y-full"
+                                    style={{ left: `${(sx(xOf(hovered)) / CHART.width) * 100}%`, top: `${((sy(yOf(hovered)) - 24) / CHART.height) * 100}%` }}
                                 >
-                                    <div className="font-bold mb-1 text-cyan-300">{model.name}</div>
-                                    <div className="text-slate-300 leading-tight mb-1">{model.details}</div>
-                                    <div className="absolute bottom-[-6px] left-1/2 -translate-x-1/2 w-3 h-3 bg-slate-800 dark:bg-black rotate-45"></div>
+                                    <div className="font-bold mb-1 text-cyan-300">{hovered.name}</div>
+                                    <div className="text-slate-300 leading-tight mb-1">{hovered.details}</div>
+                                    <div className="font-mono text-slate-400">{yInfo.format(yOf(hovered))} · {xInfo.format(xOf(hovered))}</div>
                                 </motion.div>
                             )}
                         </AnimatePresence>
 
-                        {/* Bars Container */}
-                        <div className="w-full h-8 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden flex relative cursor-pointer ring-offset-2 dark:ring-offset-slate-800 group-hover:ring-2 ring-ocean/50 transition-all">
-                            {/* FPS Bar */}
-                            <motion.div 
-                                className={`h-full ${model.color} flex items-center justify-end px-2 text-[10px] text-white font-bold relative z-10`}
-                                initial={{ width: 0 }}
-                                whileInView={{ width: `${(model.fps / maxFps) * 100}%` }}
-                                transition={{ duration: 1, delay: 0.2 }}
-                            >
-                                <span className="mr-1">{model.fps} FPS</span>
-                            </motion.div>
+                        <table className="sr-only">
+                            <caption>{yInfo.label} vs {xInfo.label.toLowerCase()}, {benchmarks.source}</caption>
+                            <thead>
+                                <tr>
+                                    <th scope="col">Model</th>
+                                    <th scope="col">{xInfo.label} ({xInfo.unit})</th>
+                                    <th scope="col">{yInfo.label} ({yInfo.unit})</th>
+                                    <th scope="col">Pareto frontier</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {plotted.map(m => (
+                                    <tr key={m.id}>
+                                        <th scope="row">{m.name}</th>
+                                        <td>{xInfo.format(xOf(m))}</td>
+                                        <td>{yInfo.format(yOf(m))}</td>
+                                        <td>{frontier.includes(m) ? 'Yes' : 'No'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="text-xs text-center text-slate-400 mt-2 font-mono flex flex-wrap items-center justify-center gap-2">
+                            <Clock size={12}/> Measured on {benchmarks.hardware} ({benchmarks.source}) - Hover or tap a model for details
+                            {missing.length > 0 && <span className="w-full">Not reported on these axes: {missing.map(m => m.name).join(', ')}</span>}
                         </div>
                     </div>
-                ))}
-                <div className="text-xs text-center text-slate-400 mt-2 font-mono flex items-center justify-center gap-2">
-                    <Clock size={12}/> Speed (Frames Per Second) - Hover for details
-                </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                <tr>
+                                    {(['name', ...TABLE_COLUMNS] as SortKey[]).map(key => (
+                                        <th key={key} className="py-2 px-2" aria-sort={sort.key === key ? (sort.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                                            <button onClick={() => toggleSort(key)} className="flex items-center gap-1 uppercase font-bold hover:text-ocean transition-colors">
+                                                {key === 'name' ? 'Model' : BENCHMARK_METRICS[key].short}
+                                                {sort.key === key ? (sort.dir === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />) : <ArrowUpDown size={12} className="opacity-40" />}
+                                            </button>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-700 dark:text-slate-200">
+                                {sorted.map(m => (
+                                    <tr key={m.id} className={`border-t border-slate-100 dark:border-slate-700 ${m.isOurs ? 'font-bold text-ocean' : ''} ${highlightedModel === m.id ? 'bg-highlight/15' : ''}`}>
+                                        <td className="py-2 px-2" title={m.details}>{m.name}</td>
+                                        {TABLE_COLUMNS.map(col => {
+                                            const v = metricValue(m, col);
+                                            return <td key={col} className="py-2 px-2 font-mono">{v === undefined ? <span className="text-slate-400">—</span> : BENCHMARK_METRICS[col].format(v)}</td>;
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="mt-2 text-xs text-slate-400 font-mono">{benchmarks.source}, {benchmarks.hardware}. "—" = not reported.</p>
+                    </div>
+                )}
             </div>
         </div>
     )
-}
\ No newline at end of file
+}
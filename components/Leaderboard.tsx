@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Trophy, ArrowUp, ArrowDown, ArrowUpDown, ExternalLink, Search } from 'lucide-react';
+import { CONTENT } from '../data/content';
+import { BENCHMARK_METRICS } from '../data/benchmarks';
+import { REFERENCE_HARDWARE } from '../data/hardware';
+import { LEADERBOARD_SOURCES, LEADERBOARD_URL, RankedEntry, rankEntries } from '../data/leaderboard';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+import type { LeaderboardSource } from '../types';
+
+type SortKey = 'model' | 'f1' | 'iou' | 'normalizedFps' | 'fps' | 'vramGb';
+
+const COLUMNS: { key: SortKey; label: string; better: 'higher' | 'lower' }[] = [
+  { key: 'model', label: 'Model', better: 'lower' },
+  { key: 'f1', label: 'F1', better: 'higher' },
+  { key: 'iou', label: 'IoU', better: 'higher' },
+  { key: 'fps', label: 'FPS (reported)', better: 'higher' },
+  { key: 'normalizedFps', label: `FPS (≈${REFERENCE_HARDWARE.label})`, better: 'higher' },
+  { key: 'vramGb', label: 'VRAM', better: 'lower' },
+];
+
+const SOURCE_LABELS: Record<LeaderboardSource, string> = { paper: 'Paper', community: 'Community' };
+
+const SourceBadge: React.FC<{ source: LeaderboardSource }> = ({ source }) => (
+  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${
+    source === 'paper'
+      ? 'bg-ocean/10 text-ocean'
+      : 'bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400'
+  }`}>
+    {SOURCE_LABELS[source]}
+  </span>
+);
+
+const dash = <span className="text-slate-400">—</span>;
+
+// Results on USS-Water from the paper and from other groups, merged from the
+// versioned leaderboard file. FPS is also shown rescaled to the paper's GPU.
+export const Leaderboard: React.FC = () => {
+  const state = useLeaderboard();
+  const [source, setSource] = useState<LeaderboardSource | 'all'>('all');
+  const [hardware, setHardware] = useState('all');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; dir: 'asc' | 'desc' }>({ key: 'f1', dir: 'desc' });
+
+  const ranked = useMemo(() => rankEntries(state.entries), [state.entries]);
+  const hardwareOptions = useMemo(() => [...new Set(ranked.map(e => e.hardwareLabel))].sort(), [ranked]);
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const value = (e: RankedEntry) => (sort.key === 'model' ? undefined : e[sort.key]);
+    return ranked
+      .filter(e => source === 'all' || e.source === source)
+      .filter(e => hardware === 'all' || e.hardwareLabel === hardware)
+      .filter(e => !q || e.model.toLowerCase().includes(q) || e.reportedBy.toLowerCase().includes(q))
+      .sort((a, b) => {
+        if (sort.key === 'model') return sort.dir === 'asc' ? a.model.localeCompare(b.model) : b.model.localeCompare(a.model);
+        const va = value(a);
+        const vb = value(b);
+        // Unreported values always sink to the bottom.
+        if (va === undefined) return vb === undefined ? 0 : 1;
+        if (vb === undefined) return -1;
+        return sort.dir === 'asc' ? va - vb : vb - va;
+      });
+  }, [ranked, source, hardware, query, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    const column = COLUMNS.find(c => c.key === key)!;
+    const initial = column.better === 'higher' ? 'desc' : 'asc';
+    setSort(s => (s.key === key ? { key, dir: s.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: initial }));
+  };
+
+  const communityCount = ranked.filter(e => e.source === 'community').length;
+
+  return (
+    <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-700">
+      <div className="flex items-center gap-2 mb-2">
+        <Trophy className="text-ocean" />
+        <h3 className="text-2xl font-serif text-slate-900 dark:text-white">Leaderboard</h3>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-300 mb-6 max-w-3xl">
+        Results on USS-Water reported in papers and submitted by the community. Because FPS depends on the GPU, each result is also rescaled to the {REFERENCE_HARDWARE.label} by peak FP32 throughput. Treat that column as an estimate, not a measurement.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <div className="flex rounded-full border border-slate-200 dark:border-slate-700 overflow-hidden text-xs font-bold">
+          {(['all', ...LEADERBOARD_SOURCES] as const).map(s => (
+            <button
+              key={s}
+              onClick={() => setSource(s)}
+              aria-pressed={source === s}
+              className={`px-3 py-1 transition-colors ${source === s ? 'bg-ocean text-ocean-fg' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+            >
+              {s === 'all' ? 'All' : SOURCE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={hardware}
+          onChange={(e) => setHardware(e.target.value)}
+          aria-label="Filter by hardware"
+          className="px-3 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200 outline-none focus:border-ocean"
+        >
+          <option value="all">All hardware</option>
+          {hardwareOptions.map(h => <option key={h} value={h}>{h}</option>)}
+        </select>
+        <label className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg focus-within:border-ocean">
+          <Search size={14} className="text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search models"
+            className="bg-transparent outline-none text-slate-700 dark:text-slate-200 w-40"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+            <tr>
+              <th className="py-2 px-2">#</th>
+              {COLUMNS.map(c => (
+                <th key={c.key} className="py-2 px-2" aria-sort={sort.key === c.key ? (sort.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                  <button onClick={() => toggleSort(c.key)} className="flex items-center gap-1 uppercase font-bold hover:text-ocean transition-colors whitespace-nowrap">
+                    {c.label}
+                    {sort.key === c.key ? (sort.dir === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />) : <ArrowUpDown size={12} className="opacity-40" />}
+                  </button>
+                </th>
+              ))}
+              <th className="py-2 px-2">Source</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-700 dark:text-slate-200">
+            {rows.map((e, i) => (
+              <tr key={e.id} className={`border-t border-slate-100 dark:border-slate-700 ${e.isOurs ? 'font-bold text-ocean' : ''}`}>
+                <td className="py-2 px-2 font-mono text-slate-400">{i + 1}</td>
+                <td className="py-2 px-2">
+                  {e.url ? (
+                    <a href={e.url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 hover:text-ocean">
+                      {e.model} <ExternalLink size={12} />
+                    </a>
+                  ) : e.model}
+                </td>
+                <td className="py-2 px-2 font-mono">{BENCHMARK_METRICS.f1.format(e.f1)}</td>
+                <td className="py-2 px-2 font-mono">{e.iou !== undefined ? BENCHMARK_METRICS.iou.format(e.iou) : dash}</td>
+                <td className="py-2 px-2 font-mono whitespace-nowrap">
+                  {e.fps.toFixed(1)} <span className="font-sans text-xs text-slate-400">on {e.hardwareLabel}</span>
+                </td>
+                <td className="py-2 px-2 font-mono" title={e.normalizedFps === undefined ? `Unknown GPU "${e.hardware}", not normalized` : undefined}>
+                  {e.normalizedFps !== undefined ? `≈${e.normalizedFps.toFixed(1)}` : dash}
+                </td>
+                <td className="py-2 px-2 font-mono">{e.vramGb !== undefined ? BENCHMARK_METRICS.vramGb.format(e.vramGb) : dash}</td>
+                <td className="py-2 px-2">
+                  <div className="flex items-center gap-2 whitespace-nowrap">
+                    <SourceBadge source={e.source} />
+                    <span className="text-xs font-normal text-slate-500 dark:text-slate-400">{e.reportedBy}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={COLUMNS.length + 2} className="py-8 text-center text-slate-500 italic">No results match these filters.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-xs text-slate-400">
+        {state.status === 'loading' && 'Loading submissions…'}
+        {state.status === 'error' && <span className="text-red-500">Could not load submissions ({state.error}). Showing paper results only.</span>}
+        {state.status === 'ready' && communityCount === 0 && 'No community submissions yet. '}
+        {' '}Submit results by opening a pull request against <a href={LEADERBOARD_URL} className="underline hover:text-ocean">{LEADERBOARD_URL.split('/').pop()}</a> in the <a href={CONTENT.paper.repositoryUrl} target="_blank" rel="noreferrer" className="underline hover:text-ocean">project repository</a>.
+      </p>
+    </div>
+  );
+};
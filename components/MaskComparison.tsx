@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, SplitSquareHorizontal, Timer, AlertTriangle } from 'lucide-react';
+import { MissingAssetError, requireAssets } from '../data/assets';
+import { CONTENT } from '../data/content';
+import { ERROR_COLORS, LabelMask, fetchMask, loadImage, renderErrorOverlay, renderWaterOverlay } from '../lib/mask';
+
+export interface ComparisonSources {
+  imagery: string;
+  groundTruth: string;
+  prediction: string;
+}
+
+type Layer = 'imagery' | 'groundTruth' | 'prediction';
+type Mode = 'swipe' | 'blink' | 'errors';
+
+const LAYER_LABELS: Record<Layer, string> = {
+  imagery: 'Imagery',
+  groundTruth: 'Ground truth',
+  prediction: `${CONTENT.model.name} prediction`,
+};
+
+const MASK_COLORS = { groundTruth: '#22d3ee', prediction: '#a855f7' };
+const BLINK_MS = 700;
+
+type Loaded =
+  | { status: 'loading' }
+  | { status: 'ready'; imagery: string; width: number; height: number; groundTruth: LabelMask; prediction: LabelMask }
+  /** A layer isn't deployed with this build. */
+  | { status: 'missing' }
+  | { status: 'error'; error: string };
+
+const ImageDataCanvas: React.FC<{ image: ImageData; className?: string; style?: React.CSSProperties }> = ({ image, className, style }) => {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = ref.current;
+    if (!canvas) return;
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')!.putImageData(image, 0, 0);
+  }, [image]);
+  return <canvas ref={ref} className={className} style={style} />;
+};
+
+// Stacks imagery, ground truth and prediction for one scene and lets the
+// reader swipe between two layers, blink them, or see TP/FP/FN pixels.
+export const MaskComparison: React.FC<{ sources: ComparisonSources; title: string }> = ({ sources, title }) => {
+  const [loaded, setLoaded] = useState<Loaded>({ status: 'loading' });
+  const [mode, setMode] = useState<Mode>('swipe');
+  const [left, setLeft] = useState<Layer>('groundTruth');
+  const [right, setRight] = useState<Layer>('prediction');
+  const [split, setSplit] = useState(50);
+  const [blinkRight, setBlinkRight] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoaded({ status: 'loading' });
+    requireAssets([sources.imagery, sources.groundTruth, sources.prediction], controller.signal)
+      .then(() => Promise.all([
+        loadImage(sources.imagery),
+        fetchMask(sources.groundTruth, controller.signal),
+        fetchMask(sources.prediction, controller.signal),
+      ]))
+      .then(([img, groundTruth, prediction]) => {
+        const { naturalWidth: width, naturalHeight: height } = img;
+        for (const m of [groundTruth, prediction]) {
+          if (m.width !== width || m.height !== height) {
+            throw new Error(`Mask is ${m.width}×${m.height} but imagery is ${width}×${height}`);
+          }
+        }
+        setLoaded({ status: 'ready', imagery: img.src, width, height, groundTruth, prediction });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        if (error instanceof MissingAssetError) {
+          setLoaded({ status: 'missing' });
+          return;
+        }
+        console.error("Failed to load comparison layers", error);
+        setLoaded({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      });
+    return () => controller.abort();
+  }, [sources.imagery, sources.groundTruth, sources.prediction]);
+
+  useEffect(() => {
+    if (mode !== 'blink') return;
+    const id = window.setInterval(() => setBlinkRight(b => !b), BLINK_MS);
+    return () => window.clearInterval(id);
+  }, [mode]);
+
+  const overlays = useMemo(() => {
+    if (loaded.status !== 'ready') return null;
+    return {
+      groundTruth: renderWaterOverlay(loaded.groundTruth, MASK_COLORS.groundTruth),
+      prediction: renderWaterOverlay(loaded.prediction, MASK_COLORS.prediction),
+    };
+  }, [loaded]);
+
+  const errors = useMemo(
+    () => (loaded.status === 'ready' && mode === 'errors' ? renderErrorOverlay(loaded.groundTruth, loaded.prediction) : null),
+    [loaded, mode]
+  );
+
+  const updateSplit = (clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const renderLayer = (layer: Layer, style?: React.CSSProperties) =>
+    layer === 'imagery' || !overlays ? null : (
+      <ImageDataCanvas key={layer} image={overlays[layer]} className="absolute inset-0 w-full h-full opacity-70" style={style} />
+    );
+
+  const layerSelect = (value: Layer, onChange: (l: Layer) => void, label: string) => (
+    <label className="flex items-center gap-2">
+      <span className="text-slate-400">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as Layer)}
+        className="px-2 py-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded text-slate-700 dark:text-slate-200 outline-none focus:border-ocean"
+      >
+        {(Object.keys(LAYER_LABELS) as Layer[]).map(l => <option key={l} value={l}>{LAYER_LABELS[l]}</option>)}
+      </select>
+    </label>
+  );
+
+  const modeButton = (m: Mode, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setMode(m)}
+      aria-pressed={mode === m}
+      className={`flex items-center gap-1.5 px-3 py-1 rounded-full border transition-colors ${
+        mode === m ? 'bg-ocean text-ocean-fg border-ocean' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-ocean'
+      }`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 text-xs">
+      <div className="flex flex-wrap gap-2 font-bold">
+        {modeButton('swipe', <SplitSquareHorizontal size={14} />, 'Swipe')}
+        {modeButton('blink', <Timer size={14} />, 'Blink')}
+        {modeButton('errors', <AlertTriangle size={14} />, 'Errors')}
+      </div>
+
+      {mode !== 'errors' && (
+        <div className="flex flex-wrap gap-4">
+          {layerSelect(left, setLeft, mode === 'swipe' ? 'Left' : 'A')}
+          {layerSelect(right, setRight, mode === 'swipe' ? 'Right' : 'B')}
+        </div>
+      )}
+
+      <div
+        ref={stageRef}
+        className="relative w-full bg-slate-200 dark:bg-slate-900 rounded-lg overflow-hidden select-none touch-none"
+        style={{ aspectRatio: loaded.status === 'ready' ? `${loaded.width} / ${loaded.height}` : '4 / 3' }}
+        onPointerDown={(e) => {
+          if (mode !== 'swipe') return;
+          dragging.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          updateSplit(e.clientX);
+        }}
+        onPointerMove={(e) => dragging.current && updateSplit(e.clientX)}
+        onPointerUp={() => { dragging.current = false; }}
+        aria-label={`${title} comparison`}
+      >
+        {loaded.status === 'ready' && (
+          <>
+            <img src={loaded.imagery} alt={`${title} imagery`} className="absolute inset-0 w-full h-full" draggable={false} />
+
+            {mode === 'swipe' && (
+              <>
+                {renderLayer(left, { clipPath: `inset(0 ${100 - split}% 0 0)` })}
+                {renderLayer(right, { clipPath: `inset(0 0 0 ${split}%)` })}
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow cursor-ew-resize" style={{ left: `${split}%` }}>
+                  <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-slate-600">
+                    <SplitSquareHorizontal size={12} />
+                  </div>
+                </div>
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-slate-900/70 text-white">{LAYER_LABELS[left]}</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-slate-900/70 text-white">{LAYER_LABELS[right]}</span>
+              </>
+            )}
+
+            {mode === 'blink' && (
+              <>
+                {renderLayer(blinkRight ? right : left)}
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-slate-900/70 text-white">{LAYER_LABELS[blinkRight ? right : left]}</span>
+              </>
+            )}
+
+            {mode === 'errors' && errors && (
+              <ImageDataCanvas image={errors.image} className="absolute inset-0 w-full h-full opacity-80" />
+            )}
+          </>
+        )}
+        {loaded.status === 'loading' && (
+          <div className="absolute inset-0 flex items-center justify-center text-slate-400"><Loader2 className="animate-spin" /></div>
+        )}
+        {loaded.status === 'error' && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center font-mono text-slate-500 dark:text-slate-400">
+            Could not load comparison: {loaded.error}
+          </div>
+        )}
+        {loaded.status === 'missing' && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-slate-500 dark:text-slate-400">
+            <p>
+              The imagery, ground truth and prediction for this scene are not bundled with this build of the site, so the
+              comparison can't be shown here.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {mode === 'errors' ? (
+        <div className="flex flex-wrap gap-4 text-slate-600 dark:text-slate-300">
+          {([
+            ['truePositive', 'True positive'],
+            ['falsePositive', 'False positive'],
+            ['falseNegative', 'False negative'],
+          ] as const).map(([key, label]) => (
+            <span key={key} className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: ERROR_COLORS[key] }} />
+              {label}
+              {errors && <span className="font-mono text-slate-400">{errors.counts[key].toLocaleString('en-US')} px</span>}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-4 text-slate-600 dark:text-slate-300">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm" style={{ backgroundColor: MASK_COLORS.groundTruth }} /> Ground-truth water</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm" style={{ backgroundColor: MASK_COLORS.prediction }} /> Predicted water</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Calculator, FileDown, Upload, CheckCircle2 } from 'lucide-react';
+import { CONTENT } from '../data/content';
+import { LabelMask, decodeMask } from '../lib/mask';
+import { MetricReport, ScoredClass, computeMetrics, reportToCsv, reportToJson } from '../lib/metrics';
+import { downloadText } from '../lib/download';
+
+type MaskMode = 'classes' | 'binary';
+
+// Binary masks are remapped to 0/1 and scored as a single "water" class.
+const BINARY_CLASS: ScoredClass = { id: 'water', label: 'Water', maskValue: 1 };
+
+const toBinary = (mask: LabelMask): LabelMask => ({
+  ...mask,
+  data: mask.data.map(v => (v === 0 ? 0 : 1)),
+});
+
+const pct = (v: number) => (Number.isNaN(v) ? '—' : `${(v * 100).toFixed(1)}%`);
+
+const MaskDrop: React.FC<{ label: string; file: File | null; onFile: (f: File) => void }> = ({ label, file, onFile }) => {
+  const [over, setOver] = useState(false);
+  return (
+    <label
+      onDragOver={(e) => { e.preventDefault(); setOver(true); }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        const f = e.dataTransfer.files[0];
+        if (f) onFile(f);
+      }}
+      className={`flex-1 flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed cursor-pointer transition-colors text-center ${
+        over ? 'border-ocean bg-ocean/5' : 'border-slate-200 dark:border-slate-700 hover:border-ocean'
+      }`}
+    >
+      {file ? <CheckCircle2 className="text-emerald-500" /> : <Upload className="text-slate-400" />}
+      <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{label}</span>
+      <span className="text-xs text-slate-500 dark:text-slate-400 truncate max-w-full">{file ? file.name : 'Drop a PNG or click to choose'}</span>
+      <input type="file" accept="image/png" className="sr-only" onChange={(e) => e.target.files?.[0] && onFile(e.target.files[0])} />
+    </label>
+  );
+};
+
+// Scores a prediction mask against ground truth entirely in the browser. The
+// scores are pooled over one mask pair, not the paper's aggregation; see lib/metrics.
+export const MetricCalculator: React.FC = () => {
+  const [prediction, setPrediction] = useState<File | null>(null);
+  const [truth, setTruth] = useState<File | null>(null);
+  const [mode, setMode] = useState<MaskMode>('classes');
+  const [report, setReport] = useState<MetricReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const evaluate = async () => {
+    if (!prediction || !truth) return;
+    setError(null);
+    setReport(null);
+    try {
+      const [p, t] = await Promise.all([prediction.arrayBuffer(), truth.arrayBuffer()]);
+      let predMask = decodeMask(p);
+      let truthMask = decodeMask(t);
+      let classes: ScoredClass[] = CONTENT.dataset.classes;
+      if (mode === 'binary') {
+        predMask = toBinary(predMask);
+        truthMask = toBinary(truthMask);
+        classes = [BINARY_CLASS];
+      }
+      setReport(computeMetrics(truthMask, predMask, classes));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportAs = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const base = (prediction?.name ?? 'prediction').replace(/\.png$/i, '');
+    if (format === 'csv') downloadText(`${base}-metrics.csv`, reportToCsv(report), 'text/csv');
+    else downloadText(`${base}-metrics.json`, reportToJson(report), 'application/json');
+  };
+
+  const maxCell = report ? Math.max(...report.confusion.flat()) : 1;
+
+  return (
+    <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-700">
+      <div className="flex items-center gap-2 mb-2">
+        <Calculator className="text-ocean" />
+        <h3 className="text-2xl font-serif text-slate-900 dark:text-white">Evaluate your masks</h3>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-300 mb-6 max-w-3xl">
+        Compare a prediction against ground truth. Headline IoU and F1 treat every water class as water versus background, pooled over all pixels of the pair. That is not how the paper aggregated its results, so don't expect to reproduce the reported figures exactly. Files never leave your browser.
+      </p>
+
+      <div className="flex flex-col md:flex-row gap-4 mb-4">
+        <MaskDrop label="Prediction mask" file={prediction} onFile={setPrediction} />
+        <MaskDrop label="Ground-truth mask" file={truth} onFile={setTruth} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+        <label className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+          <span className="font-bold">Label format</span>
+          <select
+            value={mode}
+            onChange={(e) => { setMode(e.target.value as MaskMode); setReport(null); }}
+            className="px-3 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg outline-none focus:border-ocean"
+          >
+            <option value="classes">{CONTENT.dataset.classes.length}-class (0 = background, {CONTENT.dataset.classes.map(c => c.maskValue).join('/')} = classes)</option>
+            <option value="binary">Binary (any non-zero = water)</option>
+          </select>
+        </label>
+        <button
+          onClick={evaluate}
+          disabled={!prediction || !truth}
+          className="px-5 py-2 bg-ocean text-ocean-fg rounded-full font-bold hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Compute metrics
+        </button>
+        {report && (
+          <div className="flex gap-2 ml-auto">
+            <button onClick={() => exportAs('csv')} className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-ocean transition-colors"><FileDown size={14} /> CSV</button>
+            <button onClick={() => exportAs('json')} className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-ocean transition-colors"><FileDown size={14} /> JSON</button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 text-sm">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="py-2 pr-2">Scope</th><th className="px-2">IoU</th><th className="px-2">F1</th>
+                  <th className="px-2">Precision</th><th className="px-2">Recall</th><th className="px-2">Pixel acc.</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-700 dark:text-slate-200">
+                <tr className="border-t border-slate-100 dark:border-slate-700 font-bold text-ocean">
+                  <td className="py-2 pr-2 font-sans">Water (overall)</td>
+                  <td className="px-2">{pct(report.water.iou)}</td><td className="px-2">{pct(report.water.f1)}</td>
+                  <td className="px-2">{pct(report.water.precision)}</td><td className="px-2">{pct(report.water.recall)}</td>
+                  <td className="px-2">{pct(report.water.pixelAccuracy)}</td>
+                </tr>
+                {mode === 'classes' && report.perClass.map(c => (
+                  <tr key={c.id} className="border-t border-slate-100 dark:border-slate-700">
+                    <td className="py-2 pr-2 font-sans">{c.label}</td>
+                    <td className="px-2">{pct(c.iou)}</td><td className="px-2">{pct(c.f1)}</td>
+                    <td className="px-2">{pct(c.precision)}</td><td className="px-2">{pct(c.recall)}</td>
+                    <td className="px-2 text-slate-400">—</td>
+                  </tr>
+                ))}
+                {mode === 'classes' && (
+                  <tr className="border-t border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400">
+                    <td className="py-2 pr-2 font-sans">All classes</td>
+                    <td className="px-2">{pct(report.meanIoU)} <span className="font-sans text-[10px]">mIoU</span></td>
+                    <td className="px-2" colSpan={3}></td>
+                    <td className="px-2">{pct(report.pixelAccuracy)}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-slate-400">{report.width}×{report.height} px. "—" means the class is absent from both masks.</p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-2">Confusion matrix (rows = truth, columns = prediction, pixels)</h4>
+            <table className="text-[10px] font-mono">
+              <thead>
+                <tr>
+                  <th></th>
+                  {report.labels.map(l => <th key={l} className="px-1 pb-1 font-sans text-slate-500 dark:text-slate-400 [writing-mode:vertical-rl] rotate-180">{l}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {report.confusion.map((row, i) => (
+                  <tr key={report.labels[i]}>
+                    <th className="pr-2 text-right font-sans text-slate-500 dark:text-slate-400">{report.labels[i]}</th>
+                    {row.map((v, j) => (
+                      <td
+                        key={j}
+                        title={`${report.labels[i]} → ${report.labels[j]}: ${v.toLocaleString('en-US')} px`}
+                        className={`w-10 h-8 text-center ${i === j ? 'text-white' : 'text-slate-700 dark:text-slate-200'}`}
+                        style={{ backgroundColor: v ? `rgba(14, 165, 233, ${0.1 + 0.9 * Math.sqrt(v / maxCell)})` : undefined }}
+                      >
+                        {v ? (v >= 1e6 ? `${(v / 1e6).toFixed(1)}M` : v >= 1e3 ? `${Math.round(v / 1e3)}k` : v) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Cpu, X, Loader2 } from 'lucide-react';
+import { CONTENT } from '../data/content';
+import { hexToRgb } from '../lib/mask';
+import { DEFAULT_INFERENCE_CONFIG, InferenceRequest, InferenceResponse, isMissingModel } from '../workers/inferenceProtocol';
+
+// Larger scenes would need several hundred MB of accumulators in the worker.
+const MAX_PIXELS = 4096 * 4096;
+const MASK_COLOR = '#22d3ee';
+
+type RunState =
+  | { status: 'idle' }
+  | { status: 'running'; message: string; done: number; total: number }
+  | { status: 'done'; waterShare: number; elapsedMs: number; tiles: number }
+  | { status: 'cancelled' }
+  // No ONNX export is deployed with the site, so there is nothing to run.
+  | { status: 'unavailable' }
+  | { status: 'error'; error: string };
+
+const readImage = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  if (bitmap.width * bitmap.height > MAX_PIXELS) {
+    bitmap.close();
+    throw new Error(`Image is ${bitmap.width}×${bitmap.height}; the in-browser demo is limited to ${MAX_PIXELS.toLocaleString('en-US')} pixels.`);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { url: canvas.toDataURL('image/jpeg', 0.9), data: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+// "Try the model": runs the exported U-Net+ ONNX model on an uploaded RGB
+// image in a Web Worker, tiling and blending exactly like the pipeline diagram.
+export const ModelPlayground: React.FC = () => {
+  const [image, setImage] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [run, setRun] = useState<RunState>({ status: 'idle' });
+  const [opacity, setOpacity] = useState(0.6);
+  const workerRef = useRef<Worker | null>(null);
+  const runId = useRef(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const config = DEFAULT_INFERENCE_CONFIG;
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Checked up front so visitors aren't asked for an image the model can't see.
+  // Network errors are left for the run itself to report.
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(config.modelUrl, { method: 'HEAD', signal: controller.signal })
+      .then(res => isMissingModel(res) && setRun({ status: 'unavailable' }))
+      .catch(() => {});
+    return () => controller.abort();
+  }, [config.modelUrl]);
+
+  const getWorker = () => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/inference.worker.ts', import.meta.url), { type: 'module' });
+    }
+    return workerRef.current;
+  };
+
+  const paintMask = (probabilities: Float32Array, width: number, height: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 0;
+    canvas.width = width;
+    canvas.height = height;
+    const [r, g, b] = hexToRgb(MASK_COLOR);
+    const overlay = new ImageData(width, height);
+    let water = 0;
+    for (let i = 0; i < probabilities.length; i++) {
+      if (probabilities[i] < config.threshold) continue;
+      water++;
+      overlay.data.set([r, g, b, 255], i * 4);
+    }
+    canvas.getContext('2d')!.putImageData(overlay, 0, 0);
+    return water / probabilities.length;
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    cancel();
+    setImage(null);
+    try {
+      const { url, data } = await readImage(file);
+      setImage({ url, width: data.width, height: data.height });
+      start(data);
+    } catch (error) {
+      setRun({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const start = (data: ImageData) => {
+    const id = ++runId.current;
+    const worker = getWorker();
+    setRun({ status: 'running', message: 'Starting…', done: 0, total: 0 });
+
+    worker.onmessage = (e: MessageEvent<InferenceResponse>) => {
+      const msg = e.data;
+      if (msg.id !== runId.current) return;
+      switch (msg.type) {
+        case 'status':
+          setRun(r => (r.status === 'running' ? { ...r, message: msg.message } : r));
+          break;
+        case 'progress':
+          setRun({ status: 'running', message: 'Segmenting tiles…', done: msg.done, total: msg.total });
+          break;
+        case 'result': {
+          const waterShare = paintMask(msg.probabilities, msg.width, msg.height);
+          setRun(r => ({ status: 'done', waterShare, elapsedMs: msg.elapsedMs, tiles: r.status === 'running' ? r.total : 0 }));
+          break;
+        }
+        case 'cancelled':
+          setRun({ status: 'cancelled' });
+          break;
+        case 'missing-model':
+          setImage(null);
+          setRun({ status: 'unavailable' });
+          break;
+        case 'error':
+          console.error("Inference failed", msg.message);
+          setRun({ status: 'error', error: msg.message });
+          break;
+      }
+    };
+
+    const request: InferenceRequest = { type: 'run', id, config, width: data.width, height: data.height, rgba: data.data };
+    worker.postMessage(request, [data.data.buffer]);
+  };
+
+  const cancel = () => {
+    if (run.status !== 'running' || !workerRef.current) return;
+    const request: InferenceRequest = { type: 'cancel', id: runId.current };
+    workerRef.current.postMessage(request);
+  };
+
+  const progress = run.status === 'running' && run.total > 0 ? run.done / run.total : 0;
+
+  return (
+    <div className="w-full bg-slate-800/60 rounded-2xl border border-slate-700 p-6 md:p-8 text-slate-200">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Cpu className="text-cyan-400" />
+          <div>
+            <h3 className="font-serif text-2xl text-white">Try the model</h3>
+            <p className="text-sm text-slate-400">
+              Runs {CONTENT.model.name} on your CPU (WebAssembly) in a background worker. Images are tiled into overlapping {config.tile}×{config.tile} patches and blended back together. Nothing is uploaded.
+            </p>
+          </div>
+        </div>
+        <label className={`shrink-0 flex items-center gap-2 px-5 py-2 bg-ocean text-ocean-fg rounded-full font-bold text-sm transition-colors ${run.status === 'unavailable' ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:opacity-90'}`}>
+          <Upload size={16} /> Upload RGB image
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            className="sr-only"
+            disabled={run.status === 'unavailable'}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              // Cleared so choosing the same file again still fires onChange.
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {image && (
+        <div className="relative w-full bg-slate-900 rounded-lg overflow-hidden" style={{ aspectRatio: `${image.width} / ${image.height}` }}>
+          <img src={image.url} alt="Uploaded scene" className="absolute inset-0 w-full h-full" />
+          <canvas
+            ref={canvasRef}
+            className={`absolute inset-0 w-full h-full transition-opacity ${run.status === 'done' ? '' : 'invisible'}`}
+            style={{ opacity }}
+          />
+        </div>
+      )}
+
+      <div className="mt-4 text-sm">
+        {run.status === 'running' && (
+          <div className="flex items-center gap-4">
+            <Loader2 size={16} className="animate-spin text-cyan-400 shrink-0" />
+            <div className="flex-1">
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>{run.message}</span>
+                {run.total > 0 && <span className="font-mono">{run.done}/{run.total} tiles</span>}
+              </div>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-all" style={{ width: `${progress * 100}%` }} />
+              </div>
+            </div>
+            <button onClick={cancel} className="flex items-center gap-1 px-3 py-1 rounded-full border border-slate-600 text-xs hover:bg-slate-700 transition-colors">
+              <X size={14} /> Cancel
+            </button>
+          </div>
+        )}
+        {run.status === 'done' && (
+          <div className="flex flex-wrap items-center gap-6">
+            <span><strong className="text-cyan-300">{(run.waterShare * 100).toFixed(1)}%</strong> water</span>
+            <span className="text-slate-400 font-mono text-xs">{run.tiles} tiles · {(run.elapsedMs / 1000).toFixed(1)}s on CPU</span>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Mask opacity
+              <input type="range" min={0} max={1} step={0.05} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="accent-ocean" />
+            </label>
+          </div>
+        )}
+        {run.status === 'cancelled' && <p className="text-slate-400">Inference cancelled.</p>}
+        {run.status === 'unavailable' && (
+          <p className="text-slate-400">
+            The {CONTENT.model.name} model is not bundled with this build of the site, so the demo can't run here. Place the ONNX export at <code className="font-mono text-xs text-slate-300">public/models/unet-plus.onnx</code> to enable it.
+          </p>
+        )}
+        {run.status === 'error' && <p className="text-red-300">Could not run the model: {run.error}</p>}
+        {run.status === 'idle' && !image && (
+          <p className="text-slate-500 italic">Upload a high-resolution RGB satellite or aerial image to see the predicted water mask.</p>
+        )}
+      </div>
+    </div>
+  );
+};
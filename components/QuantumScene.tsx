@@ -3,10 +3,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useMemo } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { Float, Stars, Environment, Sphere, MeshDistortMaterial, Line, Points, PointMaterial } from '@react-three/drei';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Float, Stars, Environment, Sphere, MeshDistortMaterial, Line, Points, PointMaterial, OrbitControls, Instances, Instance, Html, PerformanceMonitor } from '@react-three/drei';
+import { useReducedMotion } from 'framer-motion';
 import * as THREE from 'three';
+import type { SampleLocation } from '../types';
+import { US_STATES } from '../data/states';
+import { graticuleSegments, latLonToVector, orbitDirection, stateBorderSegments, type Orbit } from '../lib/globe';
+import type { ScenePalette } from '../lib/theme';
+import { QUALITY_PRESETS, QualityLevel, initialQuality, lowerQuality, readDeviceCapabilities } from '../lib/quality';
+import { useRenderActive } from '../hooks/useRenderActive';
 
 // Fix for missing JSX types in some environments
 declare global {
@@ -22,7 +29,7 @@ declare global {
   }
 }
 
-const WaterSurface = () => {
+const WaterSurface = ({ segments = 64, color }: { segments?: number; color: string }) => {
   const mesh = useRef<THREE.Mesh>(null);
   
   useFrame((state) => {
@@ -37,20 +44,20 @@ const WaterSurface = () => {
 
   return (
     <mesh ref={mesh} scale={[20, 20, 1]}>
-      <planeGeometry args={[1, 1, 64, 64]} />
+      <planeGeometry args={[1, 1, segments, segments]} />
       <meshStandardMaterial 
-        color="#0ea5e9"
+        color={color}
         wireframe
         transparent
         opacity={0.3}
-        emissive="#0ea5e9"
+        emissive={color}
         emissiveIntensity={0.2}
       />
     </mesh>
   );
 };
 
-const SatellitePoints = ({ count = 200 }) => {
+const SatellitePoints = ({ count = 200, color }: { count?: number; color: string }) => {
     const points = useMemo(() => {
         const p = new Float32Array(count * 3);
         for(let i=0; i<count; i++) {
@@ -75,7 +82,7 @@ const SatellitePoints = ({ count = 200 }) => {
         <Points ref={ref} positions={points} stride={3} frustumCulled={false}>
             <PointMaterial
                 transparent
-                color="#38bdf8"
+                color={color}
                 size={0.05}
                 sizeAttenuation={true}
                 depthWrite={false}
@@ -84,44 +91,318 @@ const SatellitePoints = ({ count = 200 }) => {
     )
 }
 
-export const HeroScene: React.FC = () => {
+// Static stand-in for visitors who prefer reduced motion: the same sphere,
+// star field and grid, drawn once as SVG with no WebGL at all.
+const HeroPoster = ({ palette }: { palette: ScenePalette }) => {
+  const stars = useMemo(() => Array.from({ length: 80 }, (_, i) => ({
+    // Golden-ratio spacing: evenly scattered without randomness between renders.
+    x: ((i * 0.618034) % 1) * 1600,
+    y: ((i * 0.381966 + (i % 7) * 0.113) % 1) * 900,
+    r: i % 5 === 0 ? 1.6 : 0.9,
+  })), []);
+
   return (
-    <div className="absolute inset-0 z-0 opacity-80 pointer-events-none">
-      <Canvas camera={{ position: [0, 2, 6], fov: 45 }}>
-        <fog attach="fog" args={['#0f172a', 5, 15]} />
-        <ambientLight intensity={0.5} />
-        <pointLight position={[10, 10, 10]} intensity={1} color="#38bdf8" />
-        
-        <Float speed={1.5} rotationIntensity={0.1} floatIntensity={0.2}>
-          <Sphere args={[2.5, 64, 64]} position={[0, 0, 0]}>
-             <MeshDistortMaterial
-                color="#0284c7"
-                envMapIntensity={1}
-                clearcoat={1}
-                clearcoatRoughness={0.1}
-                metalness={0.8}
-                distort={0.3}
-                speed={1.5}
-                roughness={0.2}
-             />
-          </Sphere>
-        </Float>
-        
-        <SatellitePoints />
-        <WaterSurface />
-
-        <Environment preset="night" />
-        <Stars radius={100} depth={50} count={2000} factor={4} saturation={0} fade speed={1} />
-      </Canvas>
+    <svg viewBox="0 0 1600 900" preserveAspectRatio="xMidYMid slice" className="w-full h-full" aria-hidden="true">
+      <defs>
+        <radialGradient id="hero-poster-sphere" cx="40%" cy="35%" r="65%">
+          <stop offset="0%" stopColor={palette.glow} />
+          <stop offset="55%" stopColor={palette.sphere} />
+          <stop offset="100%" stopColor={palette.background} />
+        </radialGradient>
+        <radialGradient id="hero-poster-glow">
+          <stop offset="0%" stopColor={palette.glow} stopOpacity="0.35" />
+          <stop offset="100%" stopColor={palette.glow} stopOpacity="0" />
+        </radialGradient>
+      </defs>
+      {stars.map((star, i) => <circle key={i} cx={star.x} cy={star.y} r={star.r} fill="#e2e8f0" opacity={0.6} />)}
+      <circle cx="800" cy="430" r="420" fill="url(#hero-poster-glow)" />
+      <circle cx="800" cy="430" r="250" fill="url(#hero-poster-sphere)" />
+      <g stroke={palette.glow} strokeOpacity="0.3" strokeWidth="1">
+        {Array.from({ length: 13 }, (_, i) => <line key={`h${i}`} x1="0" x2="1600" y1={700 + i * i * 1.6} y2={700 + i * i * 1.6} />)}
+        {Array.from({ length: 25 }, (_, i) => <line key={`v${i}`} x1={800 + (i - 12) * 40} x2={800 + (i - 12) * 160} y1="700" y2="900" />)}
+      </g>
+    </svg>
+  );
+};
+
+/**
+ * Decorative background for the header. Starts at a quality tier suited to the
+ * device, steps down while frame rates stay low, stops rendering when scrolled
+ * away or the tab is hidden, and shows a still poster under reduced motion.
+ */
+export const HeroScene: React.FC<{ palette: ScenePalette }> = ({ palette }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const active = useRenderActive(container);
+  const reducedMotion = useReducedMotion();
+  const [level, setLevel] = useState<QualityLevel>(() => initialQuality(readDeviceCapabilities()));
+  const quality = QUALITY_PRESETS[level];
+
+  return (
+    <div ref={container} className="absolute inset-0 z-0 opacity-80 pointer-events-none">
+      {reducedMotion ? <HeroPoster palette={palette} /> : (
+        <Canvas camera={{ position: [0, 2, 6], fov: 45 }} dpr={quality.dpr} frameloop={active ? 'always' : 'never'}>
+          <PerformanceMonitor onDecline={() => setLevel(lowerQuality)} onFallback={() => setLevel('low')} />
+          <fog attach="fog" args={[palette.background, 5, 15]} />
+          <ambientLight intensity={quality.environment ? 0.5 : 0.8} />
+          <pointLight position={[10, 10, 10]} intensity={1} color={palette.glow} />
+
+          <Float speed={1.5} rotationIntensity={0.1} floatIntensity={0.2}>
+            <Sphere args={[2.5, quality.sphereSegments, quality.sphereSegments]} position={[0, 0, 0]}>
+               <MeshDistortMaterial
+                  color={palette.sphere}
+                  envMapIntensity={1}
+                  clearcoat={1}
+                  clearcoatRoughness={0.1}
+                  metalness={quality.environment ? 0.8 : 0.4}
+                  distort={0.3}
+                  speed={1.5}
+                  roughness={0.2}
+               />
+            </Sphere>
+          </Float>
+
+          <SatellitePoints count={quality.satellitePoints} color={palette.glow} />
+          <WaterSurface segments={quality.waterSegments} color={palette.glow} />
+
+          {quality.environment && <Environment preset="night" />}
+          <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+        </Canvas>
+      )}
     </div>
   );
 };
 
-export const SatelliteScene: React.FC = () => {
-    // Placeholder for a scene used in other sections if needed
+// --- GLOBE VIEW ---
+// The dataset's sample locations on a globe, with a satellite sweeping its
+// footprint across the surface. Selecting a location (or focusing a filter)
+// flies the camera there; dragging takes over at any time.
+
+const GLOBE_RADIUS = 1;
+const ORBIT_RADIUS = 1.35;
+const FOOTPRINT_RADIUS = 0.09;
+const ORBIT: Orbit = { inclination: 98, period: 40, drift: 25 };
+const FLIGHT_SECONDS = 1.4;
+// Distance from the globe's centre when looking at one location vs. a region.
+const LOCATION_DISTANCE = 1.9;
+const REGION_DISTANCE = 2.5;
+// Continental U.S., where the camera starts.
+const HOME = latLonToVector(39, -98, 3);
+const UP = new THREE.Vector3(0, 1, 0);
+
+export interface GlobeTarget {
+  lat: number;
+  lon: number;
+}
+
+// Swings around the globe rather than cutting through it: the direction is
+// rotated and the distance interpolated separately.
+interface Flight {
+  direction: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  fromDistance: number;
+  toDistance: number;
+  t: number;
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+const LineBuffer = ({ positions, color, opacity }: { positions: Float32Array; color: string; opacity: number }) => (
+  <lineSegments>
+    <bufferGeometry>
+      <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+    </bufferGeometry>
+    <lineBasicMaterial color={color} transparent opacity={opacity} depthWrite={false} />
+  </lineSegments>
+);
+
+const Globe = ({ palette }: { palette: ScenePalette }) => {
+  // Lifted slightly off the surface so the lines don't z-fight the sphere.
+  const borders = useMemo(() => stateBorderSegments(GLOBE_RADIUS * 1.001), []);
+  const graticule = useMemo(() => graticuleSegments(GLOBE_RADIUS * 1.001), []);
+  return (
+    <group>
+      <Sphere args={[GLOBE_RADIUS, 64, 64]}>
+        <meshStandardMaterial color={palette.globe} roughness={0.9} metalness={0.1} />
+      </Sphere>
+      <LineBuffer positions={graticule} color={palette.graticule} opacity={0.12} />
+      <LineBuffer positions={borders} color={palette.borders} opacity={0.6} />
+    </group>
+  );
+};
+
+const Satellite = ({ color }: { color: string }) => {
+  const group = useRef<THREE.Group>(null);
+  const direction = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state) => {
+    if (!group.current) return;
+    direction.set(...orbitDirection(ORBIT, state.clock.getElapsedTime()));
+    group.current.quaternion.setFromUnitVectors(UP, direction);
+  });
+
+  // Built along +Y and turned to face the satellite's direction each frame.
+  return (
+    <group ref={group}>
+      <group position={[0, ORBIT_RADIUS, 0]}>
+        <mesh>
+          <boxGeometry args={[0.03, 0.03, 0.045]} />
+          <meshStandardMaterial color="#e2e8f0" metalness={0.6} roughness={0.3} />
+        </mesh>
+        <mesh>
+          <boxGeometry args={[0.16, 0.002, 0.035]} />
+          <meshStandardMaterial color="#1d4ed8" emissive="#1e3a8a" emissiveIntensity={0.6} />
+        </mesh>
+      </group>
+      <mesh position={[0, (GLOBE_RADIUS + ORBIT_RADIUS) / 2, 0]}>
+        <cylinderGeometry args={[0.004, FOOTPRINT_RADIUS, ORBIT_RADIUS - GLOBE_RADIUS, 32, 1, true]} />
+        <meshBasicMaterial color={color} transparent opacity={0.1} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+      <mesh position={[0, GLOBE_RADIUS * 1.003, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[FOOTPRINT_RADIUS * 0.9, FOOTPRINT_RADIUS, 48]} />
+        <meshBasicMaterial color={color} transparent opacity={0.8} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+};
+
+const describeLocation = (l: SampleLocation, placeholder: boolean) =>
+  `${l.id} · ${US_STATES[l.state].name} · ${l.images} images${placeholder ? ' (placeholder)' : ''}`;
+
+const LocationPoints = ({ locations, selectedId, onSelect, palette, placeholder }: {
+  palette: ScenePalette;
+  placeholder: boolean;
+  locations: SampleLocation[];
+  selectedId: string | null;
+  onSelect?: (location: SampleLocation | null) => void;
+}) => {
+  const [hovered, setHovered] = useState<SampleLocation | null>(null);
+
+  return (
+    <>
+      <Instances limit={Math.max(locations.length, 1)} range={locations.length}>
+        <sphereGeometry args={[1, 12, 12]} />
+        <meshBasicMaterial toneMapped={false} />
+        {locations.map(l => {
+          const size = 0.008 + Math.sqrt(l.images) * 0.0012;
+          const selected = l.id === selectedId;
+          return (
+            <Instance
+              key={l.id}
+              position={latLonToVector(l.lat, l.lon, GLOBE_RADIUS * 1.004)}
+              scale={selected || hovered?.id === l.id ? size * 1.6 : size}
+              color={selected ? palette.highlight : palette.point}
+              onClick={(e) => { e.stopPropagation(); onSelect?.(l); }}
+              onPointerOver={(e) => { e.stopPropagation(); setHovered(l); }}
+              onPointerOut={() => setHovered(h => (h?.id === l.id ? null : h))}
+            />
+          );
+        })}
+      </Instances>
+      {hovered && (
+        <Html position={latLonToVector(hovered.lat, hovered.lon, GLOBE_RADIUS * 1.02)} center style={{ pointerEvents: 'none' }}>
+          <div className="-translate-y-4 bg-slate-800 text-white text-[10px] px-2 py-1 rounded whitespace-nowrap">
+            {describeLocation(hovered, placeholder)}
+          </div>
+        </Html>
+      )}
+    </>
+  );
+};
+
+/**
+ * Flies the camera to look at `target` from `distance`; a drag (see onStart)
+ * cancels the flight. With `instant` it jumps there instead.
+ */
+const CameraRig = ({ target, distance, flight, instant }: {
+  target: GlobeTarget | null;
+  distance: number;
+  flight: React.MutableRefObject<Flight | null>;
+  instant: boolean;
+}) => {
+  const camera = useThree(state => state.camera);
+  const invalidate = useThree(state => state.invalidate);
+  const controls = useThree(state => state.controls) as unknown as { update: () => void } | null;
+  const turn = useMemo(() => new THREE.Quaternion(), []);
+
+  useEffect(() => {
+    if (!target) return;
+    const to = new THREE.Vector3(...latLonToVector(target.lat, target.lon));
+    const direction = camera.position.clone().normalize();
+    flight.current = {
+      direction,
+      rotation: new THREE.Quaternion().setFromUnitVectors(direction, to),
+      fromDistance: camera.position.length(),
+      toDistance: distance,
+      t: 0,
+    };
+    invalidate();
+  }, [target?.lat, target?.lon, distance]);
+
+  useFrame((_, delta) => {
+    const f = flight.current;
+    if (!f) return;
+    f.t = instant ? 1 : Math.min(1, f.t + delta / FLIGHT_SECONDS);
+    const e = easeInOut(f.t);
+    turn.identity().slerp(f.rotation, e);
+    camera.position.copy(f.direction).applyQuaternion(turn).multiplyScalar(THREE.MathUtils.lerp(f.fromDistance, f.toDistance, e));
+    controls?.update();
+    if (f.t === 1) flight.current = null;
+    // Keeps frames coming under frameloop="demand" until the flight lands.
+    else invalidate();
+  });
+
+  return null;
+};
+
+export interface SatelliteSceneProps {
+  locations: SampleLocation[];
+  selectedId?: string | null;
+  /** Where to look when nothing is selected, e.g. the centre of a state filter. */
+  focus?: GlobeTarget | null;
+  onSelect?: (location: SampleLocation | null) => void;
+  palette: ScenePalette;
+  /** The locations are synthetic stand-ins; tooltips say so. */
+  placeholder?: boolean;
+}
+
+export const SatelliteScene: React.FC<SatelliteSceneProps> = ({ locations, selectedId = null, focus = null, onSelect, palette, placeholder = false }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const active = useRenderActive(container);
+  // Under reduced motion nothing moves on its own: frames are drawn only on
+  // interaction, and selections jump rather than fly.
+  const reducedMotion = useReducedMotion() ?? false;
+  const flight = useRef<Flight | null>(null);
+  const selected = locations.find(l => l.id === selectedId) ?? null;
+  const target = selected ?? focus;
+
   return (
-    <div className="w-full h-full absolute inset-0">
-        {/* Simplified scene or different view */}
+    <div ref={container} className="w-full h-full absolute inset-0 cursor-grab active:cursor-grabbing">
+      <Canvas
+        camera={{ position: HOME, fov: 45, near: 0.01, far: 100 }}
+        frameloop={!active ? 'never' : reducedMotion ? 'demand' : 'always'}
+        onPointerMissed={() => onSelect?.(null)}
+      >
+        <ambientLight intensity={0.6} />
+        <pointLight position={[10, 10, 10]} intensity={1} color={palette.glow} />
+        <directionalLight position={[-5, 3, 5]} intensity={1.2} />
+
+        <Globe palette={palette} />
+        <LocationPoints locations={locations} selectedId={selectedId} onSelect={onSelect} palette={palette} placeholder={placeholder} />
+        <Satellite color={palette.highlight} />
+        <CameraRig target={target} distance={selected ? LOCATION_DISTANCE : REGION_DISTANCE} flight={flight} instant={reducedMotion} />
+
+        <OrbitControls
+          makeDefault
+          enablePan={false}
+          minDistance={1.4}
+          maxDistance={5}
+          rotateSpeed={0.5}
+          autoRotate={!target && !reducedMotion}
+          autoRotateSpeed={0.3}
+          onStart={() => { flight.current = null; }}
+        />
+        <Stars radius={50} depth={20} count={1500} factor={3} saturation={0} fade speed={0.5} />
+      </Canvas>
     </div>
   );
-}
\ No newline at end of file
+};
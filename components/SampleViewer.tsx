@@ -0,0 +1,380 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { X, Layers, ZoomIn, ZoomOut, Maximize, Loader2, Eye, EyeOff, Image as ImageIcon, Mountain } from 'lucide-react';
+import { CONTENT, formatCount } from '../data/content';
+import { MissingAssetError, requireAssets, sampleTileUrls } from '../data/assets';
+import { US_STATES } from '../data/states';
+import { usePanZoom } from '../hooks/usePanZoom';
+import { DEFAULT_MASK_OPACITY, LabelMask, countLabels, fetchMask, loadImage, renderClassOverlay } from '../lib/mask';
+import { ElevationGrid, fetchElevation } from '../lib/terrain';
+import { TerrainView } from './TerrainView';
+import type { SampleLocation, WaterClassId } from '../types';
+
+type TileState =
+  | { status: 'loading' }
+  | { status: 'ready'; rgb: string; mask: LabelMask; counts: Uint32Array }
+  /** The tile's imagery or mask isn't deployed with this build. */
+  | { status: 'missing' }
+  | { status: 'error'; error: string };
+
+type ElevationState =
+  | { status: 'loading' }
+  | { status: 'ready'; grid: ElevationGrid }
+  | { status: 'missing' }
+  | { status: 'error'; error: string };
+
+const { classes, resolutionM } = CONTENT.dataset;
+
+const TileNotBundled: React.FC<{ id: string }> = ({ id }) => (
+  <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+    <p>
+      The imagery and mask for this sample are not bundled with this build of the site. Place them
+      under <code className="font-mono text-xs">public/data/tiles/{id}/</code> to view it.
+    </p>
+  </div>
+);
+
+// Modal viewer for one dataset location: the RGB tile with its label mask
+// painted on top, one color per water class. The 3D view drapes both over the
+// tile's elevation, fetched the first time a tile is shown in 3D and kept for
+// the viewer's lifetime.
+//
+// The active location and mask opacity may be controlled (App mirrors them in
+// the URL); otherwise the viewer keeps its own.
+export const SampleViewer: React.FC<{
+  locations: SampleLocation[];
+  onClose: () => void;
+  activeId?: string;
+  onActiveChange?: (id: string) => void;
+  opacity?: number;
+  onOpacityChange?: (opacity: number) => void;
+}> = ({ locations, onClose, activeId: controlledId, onActiveChange, opacity: controlledOpacity, onOpacityChange }) => {
+  const [ownActiveId, setOwnActiveId] = useState(locations[0].id);
+  const [ownOpacity, setOwnOpacity] = useState(DEFAULT_MASK_OPACITY);
+  const activeId = controlledId ?? ownActiveId;
+  const opacity = controlledOpacity ?? ownOpacity;
+  const setActiveId = (id: string) => {
+    setOwnActiveId(id);
+    onActiveChange?.(id);
+  };
+  const setOpacity = (value: number) => {
+    setOwnOpacity(value);
+    onOpacityChange?.(value);
+  };
+  const [hidden, setHidden] = useState<Set<WaterClassId>>(new Set());
+  const [tile, setTile] = useState<TileState>({ status: 'loading' });
+  const [view, setView] = useState<'image' | 'terrain'>('image');
+  const [maskVisible, setMaskVisible] = useState(true);
+  const [exaggeration, setExaggeration] = useState(5);
+  const [elevation, setElevation] = useState<ElevationState>({ status: 'loading' });
+  // Decoded DEMs by location id, so switching views doesn't fetch and decode again.
+  const elevationCache = useRef(new Map<string, ElevationGrid>());
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const { transform, handlers, zoomBy, reset } = usePanZoom(viewportRef);
+
+  const active = locations.find(l => l.id === activeId) ?? locations[0];
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const urls = sampleTileUrls(active.id);
+    setTile({ status: 'loading' });
+    reset();
+    requireAssets([urls.rgb, urls.mask], controller.signal)
+      .then(() => Promise.all([loadImage(urls.rgb), fetchMask(urls.mask, controller.signal)]))
+      .then(([img, mask]) => {
+        if (img.naturalWidth !== mask.width || img.naturalHeight !== mask.height) {
+          throw new Error(`Mask is ${mask.width}×${mask.height} but tile is ${img.naturalWidth}×${img.naturalHeight}`);
+        }
+        setTile({ status: 'ready', rgb: img.src, mask, counts: countLabels(mask) });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        if (error instanceof MissingAssetError) {
+          setTile({ status: 'missing' });
+          return;
+        }
+        console.error("Failed to load sample tile", error);
+        setTile({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      });
+    return () => controller.abort();
+  }, [active.id, reset]);
+
+  useEffect(() => {
+    if (view !== 'terrain') return;
+    const cached = elevationCache.current.get(active.id);
+    if (cached) {
+      setElevation({ status: 'ready', grid: cached });
+      return;
+    }
+    const controller = new AbortController();
+    setElevation({ status: 'loading' });
+    const url = sampleTileUrls(active.id).elevation;
+    requireAssets([url], controller.signal)
+      .then(() => fetchElevation(url, controller.signal))
+      .then(grid => {
+        elevationCache.current.set(active.id, grid);
+        setElevation({ status: 'ready', grid });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        if (error instanceof MissingAssetError) {
+          setElevation({ status: 'missing' });
+          return;
+        }
+        console.error("Failed to load elevation", error);
+        setElevation({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      });
+    return () => controller.abort();
+  }, [view, active.id]);
+
+  const overlay = useMemo(
+    () => (tile.status === 'ready' ? renderClassOverlay(tile.mask, classes, c => !hidden.has(c.id)) : null),
+    [tile, hidden]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!overlay || !canvas) return;
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    canvas.getContext('2d')!.putImageData(overlay, 0, 0);
+  }, [overlay]);
+
+  const shares = useMemo(() => {
+    if (tile.status !== 'ready') return null;
+    const total = tile.mask.width * tile.mask.height;
+    return Object.fromEntries(classes.map(c => [c.id, tile.counts[c.maskValue] / total])) as Record<WaterClassId, number>;
+  }, [tile]);
+
+  const toggleClass = (id: WaterClassId) =>
+    setHidden(prev => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+
+  // Portalled so the fixed overlay isn't trapped by transformed Reveal ancestors.
+  return createPortal(
+    <motion.div
+      className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Sample ${active.id}`}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl max-h-full overflow-y-auto bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col md:flex-row"
+      >
+        {/* Tile */}
+        <div className="flex-[2] p-4 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-serif text-xl text-slate-900 dark:text-white">{active.id}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {US_STATES[active.state].name} · {active.lat.toFixed(3)}, {active.lon.toFixed(3)} · {formatCount(active.images)} images
+              </p>
+            </div>
+            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+              <div role="group" aria-label="View" className="flex mr-2 text-xs font-bold uppercase tracking-wider border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+                {([['image', 'Image', ImageIcon], ['terrain', '3D terrain', Mountain]] as const).map(([v, label, Icon]) => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    aria-pressed={view === v}
+                    className={`flex items-center gap-1.5 px-3 py-1 transition-colors ${view === v ? 'bg-ocean text-ocean-fg' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                  >
+                    <Icon size={14} /> {label}
+                  </button>
+                ))}
+              </div>
+              {view === 'image' && (
+                <>
+                  <button onClick={() => zoomBy(1.5)} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700" aria-label="Zoom in"><ZoomIn size={16} /></button>
+                  <button onClick={() => zoomBy(1 / 1.5)} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700" aria-label="Zoom out"><ZoomOut size={16} /></button>
+                  <button onClick={reset} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700" aria-label="Reset view"><Maximize size={16} /></button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Hidden rather than unmounted in 3D, so pan/zoom keeps its listeners. */}
+          <div
+            ref={viewportRef}
+            hidden={view !== 'image'}
+            className="relative w-full aspect-square bg-slate-100 dark:bg-slate-900 rounded-lg overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+            {...handlers}
+          >
+            {tile.status === 'ready' && (
+              <div className="absolute inset-0 origin-top-left" style={{ transform }}>
+                <img src={tile.rgb} alt={`RGB tile for ${active.id}`} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+                <canvas
+                  ref={canvasRef}
+                  className="absolute inset-0 w-full h-full object-contain [image-rendering:pixelated]"
+                  style={{ opacity: maskVisible ? opacity : 0 }}
+                />
+              </div>
+            )}
+            {tile.status === 'loading' && (
+              <div className="absolute inset-0 flex items-center justify-center text-slate-400">
+                <Loader2 className="animate-spin" />
+              </div>
+            )}
+            {tile.status === 'error' && (
+              <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-xs font-mono text-slate-500 dark:text-slate-400">
+                Could not load this sample: {tile.error}
+              </div>
+            )}
+            {tile.status === 'missing' && <TileNotBundled id={active.id} />}
+          </div>
+
+          {view === 'terrain' && (
+            <div className="relative w-full aspect-square bg-slate-900 rounded-lg overflow-hidden">
+              {tile.status === 'ready' && overlay && elevation.status === 'ready' && (
+                <TerrainView
+                  rgbUrl={tile.rgb}
+                  overlay={overlay}
+                  elevation={elevation.grid}
+                  groundMeters={tile.mask.width * resolutionM}
+                  exaggeration={exaggeration}
+                  maskVisible={maskVisible}
+                  maskOpacity={opacity}
+                />
+              )}
+              {(tile.status === 'loading' || (tile.status === 'ready' && elevation.status === 'loading')) && (
+                <div className="absolute inset-0 flex items-center justify-center text-slate-400">
+                  <Loader2 className="animate-spin" />
+                </div>
+              )}
+              {tile.status === 'missing' && <TileNotBundled id={active.id} />}
+              {tile.status === 'ready' && elevation.status === 'missing' && (
+                <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-slate-400">
+                  <p>
+                    The elevation raster for this sample is not bundled with this build of the site. Place it
+                    at <code className="font-mono text-xs">public/data/tiles/{active.id}/elevation.png</code> to see it in 3D.
+                  </p>
+                </div>
+              )}
+              {(tile.status === 'error' || (tile.status !== 'missing' && elevation.status === 'error')) && (
+                <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-xs font-mono text-slate-400">
+                  {tile.status === 'error' ? `Could not load this sample: ${tile.error}` : `No elevation for this tile: ${elevation.status === 'error' && elevation.error}`}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+            <button
+              onClick={() => setMaskVisible(v => !v)}
+              aria-pressed={maskVisible}
+              aria-label={maskVisible ? 'Hide mask' : 'Show mask'}
+              className="p-1 -m-1 rounded hover:text-ocean transition-colors"
+            >
+              {maskVisible ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+            <label className="flex-1 flex items-center gap-3">
+              <Layers size={14} /> Mask opacity
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={opacity}
+                onChange={(e) => setOpacity(Number(e.target.value))}
+                disabled={!maskVisible}
+                className="flex-1 accent-ocean disabled:opacity-40"
+              />
+              <span className="w-10 text-right font-mono">{Math.round(opacity * 100)}%</span>
+            </label>
+          </div>
+
+          {view === 'terrain' && (
+            <label className="flex items-center gap-3 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              <Mountain size={14} /> Vertical exaggeration
+              <input
+                type="range"
+                min={1}
+                max={25}
+                step={1}
+                value={exaggeration}
+                onChange={(e) => setExaggeration(Number(e.target.value))}
+                className="flex-1 accent-ocean"
+              />
+              <span className="w-10 text-right font-mono">{exaggeration}×</span>
+            </label>
+          )}
+        </div>
+
+        {/* Legend */}
+        <div className="flex-1 p-4 border-t md:border-t-0 md:border-l border-slate-200 dark:border-slate-700 flex flex-col gap-4">
+          <div className="flex justify-end">
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400" aria-label="Close viewer">
+              <X size={20} />
+            </button>
+          </div>
+
+          {locations.length > 1 && (
+            <label className="flex flex-col gap-1 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+              Location in cluster
+              <select
+                value={active.id}
+                onChange={(e) => setActiveId(e.target.value)}
+                className="px-3 py-1.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-normal normal-case tracking-normal text-slate-800 dark:text-slate-100 outline-none focus:border-ocean"
+              >
+                {locations.map(l => <option key={l.id} value={l.id}>{l.id} ({l.images} images)</option>)}
+              </select>
+            </label>
+          )}
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-900 dark:text-white mb-2">Water classes in this tile</h4>
+            <ul className="space-y-1">
+              {classes.map(c => {
+                const off = hidden.has(c.id);
+                return (
+                  <li key={c.id}>
+                    <button
+                      onClick={() => toggleClass(c.id)}
+                      aria-pressed={!off}
+                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm text-left transition-colors hover:bg-slate-100 dark:hover:bg-slate-700 ${off ? 'opacity-40' : ''}`}
+                    >
+                      <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: c.color }} />
+                      <span className="flex-1 text-slate-700 dark:text-slate-200">{c.label}</span>
+                      <span className="font-mono text-xs text-slate-500 dark:text-slate-400">
+                        {shares ? `${(shares[c.id] * 100).toFixed(1)}%` : '—'}
+                      </span>
+                      {off ? <EyeOff size={14} className="text-slate-400" /> : <Eye size={14} className="text-slate-400" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="mt-3 text-[11px] text-slate-400 leading-snug">
+              Share of tile pixels per class. {view === 'image'
+                ? 'Scroll to zoom, drag to pan.'
+                : 'Drag to orbit, right-drag to pan, scroll to zoom. Water collects in the low ground: raise the exaggeration to see creeks follow the valleys.'}
+            </p>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body
+  );
+};
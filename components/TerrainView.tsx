@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { ElevationGrid, terrainHeights } from '../lib/terrain';
+
+// A sample tile as a 3D surface: the DEM displaces a plane, the RGB imagery is
+// its texture and the label mask is a second, transparent skin on the same
+// geometry. Nothing animates, so frames are only drawn on interaction.
+
+const TERRAIN_SIZE = 2;
+// Finer than most tile DEMs; the extra vertices are bilinearly interpolated.
+const TERRAIN_SEGMENTS = 192;
+
+export interface TerrainViewProps {
+  rgbUrl: string;
+  /** Class overlay for the mask, as painted for the 2D view. */
+  overlay: ImageData;
+  elevation: ElevationGrid;
+  /** Ground distance across the tile, so 1× exaggeration is true scale. */
+  groundMeters: number;
+  exaggeration: number;
+  maskVisible: boolean;
+  maskOpacity: number;
+}
+
+const Terrain: React.FC<TerrainViewProps & { onImageryError: () => void }> = ({
+  rgbUrl, overlay, elevation, groundMeters, exaggeration, maskVisible, maskOpacity, onImageryError,
+}) => {
+  const invalidate = useThree(state => state.invalidate);
+  const heights = useMemo(() => terrainHeights(elevation, TERRAIN_SEGMENTS), [elevation]);
+  const geometry = useMemo(() => new THREE.PlaneGeometry(TERRAIN_SIZE, TERRAIN_SIZE, TERRAIN_SEGMENTS, TERRAIN_SEGMENTS), []);
+
+  const imagery = useMemo(() => {
+    const texture = new THREE.TextureLoader().load(rgbUrl, () => invalidate(), undefined, error => {
+      console.error("Failed to load terrain imagery", error);
+      onImageryError();
+    });
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = 4;
+    return texture;
+    // onImageryError is a fresh closure each render; only the URL decides the texture.
+  }, [rgbUrl, invalidate]);
+
+  const mask = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    canvas.getContext('2d')!.putImageData(overlay, 0, 0);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    // Class boundaries stay crisp when zoomed in, as in the 2D view.
+    texture.magFilter = THREE.NearestFilter;
+    return texture;
+  }, [overlay]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => imagery.dispose(), [imagery]);
+  useEffect(() => () => mask.dispose(), [mask]);
+
+  useLayoutEffect(() => {
+    const scale = (TERRAIN_SIZE / groundMeters) * exaggeration;
+    const position = geometry.attributes.position;
+    for (let i = 0; i < position.count; i++) position.setZ(i, heights[i] * scale);
+    position.needsUpdate = true;
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+    invalidate();
+  }, [geometry, heights, groundMeters, exaggeration, invalidate]);
+
+  // The plane is built facing +Z with north at +Y; lay it flat, north away from the camera.
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      <mesh geometry={geometry}>
+        <meshStandardMaterial map={imagery} roughness={1} metalness={0} />
+      </mesh>
+      <mesh geometry={geometry} visible={maskVisible} renderOrder={1}>
+        <meshBasicMaterial
+          map={mask}
+          transparent
+          opacity={maskOpacity}
+          depthWrite={false}
+          polygonOffset
+          polygonOffsetFactor={-2}
+          polygonOffsetUnits={-2}
+        />
+      </mesh>
+    </group>
+  );
+};
+
+// Place inside a positioned container; a failed imagery load is reported over the canvas.
+export const TerrainView: React.FC<TerrainViewProps> = (props) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+
+  return (
+    <>
+      <Canvas frameloop="demand" camera={{ position: [0, 1.6, 2.2], fov: 45, near: 0.01, far: 50 }}>
+        <ambientLight intensity={0.7} />
+        {/* From the north-west, like a conventional hillshade. */}
+        <directionalLight position={[-2, 3, -1]} intensity={1.5} />
+        <Terrain {...props} onImageryError={() => setFailedUrl(props.rgbUrl)} />
+        <OrbitControls makeDefault maxPolarAngle={Math.PI / 2 - 0.05} minDistance={0.6} maxDistance={6} />
+      </Canvas>
+      {failedUrl === props.rgbUrl && (
+        <div className="absolute inset-x-0 top-0 p-3 text-center text-xs font-mono text-slate-300 bg-slate-900/80 pointer-events-none">
+          Could not load the imagery for this tile; showing elevation only.
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Sun, Moon, Monitor, Contrast, Check } from 'lucide-react';
+import type { ResolvedTheme, ThemePreference } from '../lib/theme';
+
+// Theme picker for the nav bar: light, dark or follow the system, plus a
+// high-contrast switch. Contrast follows the system too until toggled here.
+
+const MODES: { mode: ThemePreference['mode']; label: string; Icon: typeof Sun }[] = [
+  { mode: 'light', label: 'Light', Icon: Sun },
+  { mode: 'dark', label: 'Dark', Icon: Moon },
+  { mode: 'system', label: 'System', Icon: Monitor },
+];
+
+export const ThemeMenu: React.FC<{
+  preference: ThemePreference;
+  theme: ResolvedTheme;
+  onChange: (preference: ThemePreference) => void;
+}> = ({ preference, theme, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && setOpen(false);
+    document.addEventListener('pointerdown', onPointer);
+    document.addEventListener('keydown', onKey);
+    return () => {
+      document.removeEventListener('pointerdown', onPointer);
+      document.removeEventListener('keydown', onKey);
+    };
+  }, [open]);
+
+  const itemClass = (active: boolean) =>
+    `w-full flex items-center gap-3 px-3 py-2 rounded-md text-sm text-left transition-colors ${
+      active ? 'text-ocean font-bold' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+    }`;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-300 transition-colors"
+        aria-label="Theme"
+        aria-haspopup="true"
+        aria-expanded={open}
+      >
+        {theme.mode === 'dark' ? <Moon size={20} /> : <Sun size={20} />}
+      </button>
+
+      {open && (
+        <div role="menu" aria-label="Theme" className="absolute right-0 mt-2 w-48 p-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-xl z-50 font-sans">
+          {MODES.map(({ mode, label, Icon }) => (
+            <button
+              key={mode}
+              role="menuitemradio"
+              aria-checked={preference.mode === mode}
+              onClick={() => onChange({ ...preference, mode })}
+              className={itemClass(preference.mode === mode)}
+            >
+              <Icon size={16} /> {label}
+              {preference.mode === mode && <Check size={14} className="ml-auto" />}
+            </button>
+          ))}
+          <div className="my-1 border-t border-slate-100 dark:border-slate-700" />
+          <button
+            role="menuitemcheckbox"
+            aria-checked={theme.highContrast}
+            onClick={() => onChange({ ...preference, highContrast: !theme.highContrast })}
+            className={itemClass(theme.highContrast)}
+          >
+            <Contrast size={16} /> High contrast
+            {theme.highContrast && <Check size={14} className="ml-auto" />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
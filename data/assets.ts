@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// URL conventions for imagery served from `public/data`. Kept apart from the
+// content module so that stays free of bundler-specific globals.
+
+const base = () => `${import.meta.env.BASE_URL}data`;
+
+/** An asset these conventions name isn't deployed with this build. */
+export class MissingAssetError extends Error {
+  constructor(public readonly url: string) {
+    super(`Not bundled: ${url}`);
+    this.name = 'MissingAssetError';
+  }
+}
+
+/**
+ * Rejects with MissingAssetError if any of `urls` isn't deployed. Dev and
+ * preview servers answer unknown paths with the app's index.html, so an HTML
+ * page counts as missing as well as a 404.
+ */
+export const requireAssets = async (urls: string[], signal?: AbortSignal) => {
+  await Promise.all(urls.map(async url => {
+    const res = await fetch(url, { method: 'HEAD', signal });
+    if (res.status === 404 || (res.ok && (res.headers.get('Content-Type') ?? '').includes('text/html'))) {
+      throw new MissingAssetError(url);
+    }
+  }));
+};
+
+/**
+ * Per-location sample tile: the RGB crop, its 7-class label mask and an
+ * elevation raster covering the same extent (Terrarium-encoded PNG, any size).
+ */
+export const sampleTileUrls = (locationId: string) => ({
+  rgb: `${base()}/tiles/${locationId}/rgb.jpg`,
+  mask: `${base()}/tiles/${locationId}/mask.png`,
+  elevation: `${base()}/tiles/${locationId}/elevation.png`,
+});
+
+/** Case-study scene: imagery, ground-truth mask and the U-Net+ prediction. */
+export const caseStudyUrls = (caseStudyId: string) => ({
+  imagery: `${base()}/case-studies/${caseStudyId}/imagery.jpg`,
+  groundTruth: `${base()}/case-studies/${caseStudyId}/ground-truth.png`,
+  prediction: `${base()}/case-studies/${caseStudyId}/prediction.png`,
+});
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Direction } from '../lib/chart';
+import type { ModelBenchmark } from '../types';
+import { CONTENT } from './content';
+
+// Axis/column descriptors for benchmark views (scatter, table, leaderboard).
+
+export type BenchmarkMetric = 'f1' | 'iou' | 'fps' | 'vramGb' | 'paramsM';
+
+export interface MetricInfo {
+  label: string;
+  short: string;
+  unit: string;
+  better: Direction;
+  format: (v: number) => string;
+}
+
+export const BENCHMARK_METRICS: Record<BenchmarkMetric, MetricInfo> = {
+  f1: { label: 'F1 score', short: 'F1', unit: '%', better: 'higher', format: v => `${v.toFixed(1)}%` },
+  iou: { label: 'IoU', short: 'IoU', unit: '%', better: 'higher', format: v => `${v.toFixed(1)}%` },
+  fps: { label: 'Inference speed', short: 'FPS', unit: 'FPS', better: 'higher', format: v => `${v.toFixed(1)} FPS` },
+  vramGb: { label: 'GPU memory', short: 'VRAM', unit: 'GB', better: 'lower', format: v => `${v.toFixed(1)} GB` },
+  paramsM: { label: 'Parameters', short: 'Params', unit: 'M', better: 'lower', format: v => `${v.toFixed(1)}M` },
+};
+
+export const ACCURACY_METRICS: BenchmarkMetric[] = ['f1', 'iou'];
+export const COST_METRICS: BenchmarkMetric[] = ['fps', 'vramGb', 'paramsM'];
+
+/** Scatter axes: a cost metric across, an accuracy metric up. */
+export interface ChartAxes {
+  x: BenchmarkMetric;
+  y: BenchmarkMetric;
+}
+
+export const DEFAULT_CHART_AXES: ChartAxes = { x: 'fps', y: 'f1' };
+
+export const metricValue = (m: Pick<ModelBenchmark, BenchmarkMetric>, metric: BenchmarkMetric): number | undefined => m[metric];
+
+/**
+ * The metrics at least one of the paper's models reports. Table 3 has no IoU
+ * or parameter counts, so offering them would only draw an empty chart; they
+ * appear once CONTENT has values for them.
+ */
+export const reportedMetrics = (metrics: BenchmarkMetric[]): BenchmarkMetric[] =>
+  metrics.filter(metric => CONTENT.benchmarks.models.some(m => metricValue(m, metric) !== undefined));
+
+export const CHART_ACCURACY_METRICS = reportedMetrics(ACCURACY_METRICS);
+export const CHART_COST_METRICS = reportedMetrics(COST_METRICS);
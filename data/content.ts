@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SiteContent, WaterClassId } from '../types';
+import { SchemaError, Validator, array, assertUnique, boolean, number, object, oneOf, optional, string } from './schema';
+
+// Single source of truth for every number and fact on the site.
+// Components render from CONTENT and the assistant's system prompt is generated
+// from it, so a figure only ever needs to change here.
+
+export const WATER_CLASS_IDS: readonly WaterClassId[] = ['rivers', 'lakes', 'ponds', 'reservoirs', 'wetlands', 'creeks', 'coastal'];
+const AUTHOR_ROLES = ['Lead Author', 'Co-Author', 'Corresponding Author'] as const;
+
+const percent = () => number({ min: 0, max: 100 });
+
+const hexColor = (): Validator<string> => (value, path) => {
+  const s = string()(value, path);
+  if (!/^#[0-9a-f]{6}$/i.test(s)) throw new SchemaError(path, 'expected #rrggbb color');
+  return s;
+};
+
+const siteContentSchema = object({
+  paper: object({
+    title: string({ minLength: 1 }),
+    shortTitle: string({ minLength: 1 }),
+    journal: string({ minLength: 1 }),
+    year: number({ min: 2000, integer: true }),
+    institution: string({ minLength: 1 }),
+    repositoryUrl: string({ minLength: 1 }),
+    dataLicense: string({ minLength: 1 }),
+  }),
+  dataset: object({
+    images: number({ min: 1, integer: true }),
+    labeledPixels: number({ min: 1, integer: true }),
+    resolutionM: number({ min: 0 }),
+    locations: number({ min: 1, integer: true }),
+    states: number({ min: 1, max: 50, integer: true }),
+    imagerySource: string({ minLength: 1 }),
+    classes: array(object({
+      id: oneOf(WATER_CLASS_IDS),
+      label: string({ minLength: 1 }),
+      maskValue: number({ min: 1, max: 255, integer: true }),
+      color: hexColor(),
+    }), { minLength: 1 }),
+    preprocessing: array(string({ minLength: 1 })),
+  }),
+  model: object({
+    name: string({ minLength: 1 }),
+    patchSize: number({ min: 1, integer: true }),
+    parameterReductionPct: percent(),
+    exampleScene: object({ width: number({ min: 1, integer: true }), height: number({ min: 1, integer: true }) }),
+  }),
+  benchmarks: object({
+    hardware: string({ minLength: 1 }),
+    source: string({ minLength: 1 }),
+    models: array(object({
+      id: string({ minLength: 1 }),
+      name: string({ minLength: 1 }),
+      f1: percent(),
+      iou: optional(percent()),
+      fps: number({ min: 0 }),
+      vramGb: optional(number({ min: 0 })),
+      paramsM: optional(number({ min: 0 })),
+      isOurs: boolean(),
+      summary: string({ minLength: 1 }),
+    }), { minLength: 1 }),
+  }),
+  caseStudies: array(object({
+    id: string({ minLength: 1 }),
+    title: string({ minLength: 1 }),
+    location: string({ minLength: 1 }),
+    description: string({ minLength: 1 }),
+    iou: percent(),
+    f1: percent(),
+  })),
+  authors: array(object({
+    name: string({ minLength: 1 }),
+    role: oneOf(AUTHOR_ROLES),
+    affiliation: string({ minLength: 1 }),
+  }), { minLength: 1 }),
+  limitations: array(object({ title: string({ minLength: 1 }), detail: string({ minLength: 1 }) })),
+}) satisfies Validator<SiteContent>;
+
+/** Validates raw content, including cross-field invariants the field schema can't express. */
+export const parseSiteContent = (raw: unknown): SiteContent => {
+  const content: SiteContent = siteContentSchema(raw, '');
+
+  assertUnique(content.dataset.classes, c => c.id, 'dataset.classes');
+  assertUnique(content.dataset.classes, c => String(c.maskValue), 'dataset.classes');
+  assertUnique(content.benchmarks.models, m => m.id, 'benchmarks.models');
+  assertUnique(content.caseStudies, c => c.id, 'caseStudies');
+
+  if (content.benchmarks.models.filter(m => m.isOurs).length !== 1) {
+    throw new SchemaError('benchmarks.models', 'exactly one model must be marked isOurs');
+  }
+  if (content.dataset.locations > content.dataset.images) {
+    throw new SchemaError('dataset.locations', 'cannot exceed the number of images');
+  }
+  content.caseStudies.forEach((c, i) => {
+    // For a single binary mask IoU can never exceed F1 (IoU = F1 / (2 - F1)).
+    if (c.iou > c.f1) throw new SchemaError(`caseStudies[${i}].iou`, 'IoU cannot exceed F1');
+  });
+
+  return content;
+};
+
+export const CONTENT: SiteContent = parseSiteContent({
+  paper: {
+    title: 'USS-Water Dataset and U-Net+: High-Resolution Satellite Mapping of U.S. Surface Water',
+    shortTitle: 'USS-Water',
+    journal: 'Scientific Reports',
+    year: 2024,
+    institution: 'Northern Illinois University',
+    repositoryUrl: 'https://github.com/NischalRam/USS--Water-Remote-Sensing-for-Water-Detection',
+    dataLicense: 'MIT License',
+  },
+  dataset: {
+    images: 1483,
+    labeledPixels: 1_480_000_000,
+    resolutionM: 0.3,
+    locations: 147,
+    states: 44,
+    imagerySource: 'High-resolution RGB imagery from Google Earth Pro',
+    classes: [
+      { id: 'rivers', label: 'Rivers', maskValue: 1, color: '#2563eb' },
+      { id: 'lakes', label: 'Lakes', maskValue: 2, color: '#0ea5e9' },
+      { id: 'ponds', label: 'Ponds', maskValue: 3, color: '#22d3ee' },
+      { id: 'reservoirs', label: 'Reservoirs', maskValue: 4, color: '#6366f1' },
+      { id: 'wetlands', label: 'Wetlands', maskValue: 5, color: '#10b981' },
+      { id: 'creeks', label: 'Creeks', maskValue: 6, color: '#a855f7' },
+      { id: 'coastal', label: 'Coastal', maskValue: 7, color: '#f59e0b' },
+    ],
+    preprocessing: [
+      'Images cropped to remove map legends and UI artifacts.',
+      'Sliced into smaller patches for training to fit GPU memory constraints.',
+      'Data augmentation (rotation, flipping, brightness adjustments) to improve generalization.',
+    ],
+  },
+  model: {
+    name: 'U-Net+',
+    patchSize: 512,
+    parameterReductionPct: 40,
+    exampleScene: { width: 21000, height: 12000 },
+  },
+  benchmarks: {
+    hardware: 'RTX 3090',
+    source: 'Table 3',
+    models: [
+      {
+        id: 'deeplabv3plus',
+        name: 'DeepLabV3+',
+        f1: 92.0,
+        fps: 2.1,
+        isOurs: false,
+        summary: 'Standard CNN baseline. Moderate accuracy but slow inference.',
+      },
+      {
+        id: 'msresnet34',
+        name: 'MSResNet-34',
+        f1: 95.4,
+        fps: 1.9,
+        vramGb: 10.7,
+        isOurs: false,
+        summary: 'Highest pixel accuracy, but computationally heavy.',
+      },
+      {
+        id: 'segformer-b0',
+        name: 'SegFormer-B0',
+        f1: 94.1,
+        fps: 4.5,
+        isOurs: false,
+        summary: 'Transformer-based. Good balance, but U-Net+ is faster.',
+      },
+      {
+        id: 'unet-plus',
+        name: 'U-Net+',
+        f1: 93.6,
+        fps: 6.0,
+        vramGb: 4.2,
+        isOurs: true,
+        summary: 'Optimized for the speed/accuracy trade-off in this domain.',
+      },
+    ],
+  },
+  caseStudies: [
+    {
+      id: 'chicago',
+      title: 'Urban Case Study: Chicago',
+      location: 'Jackson Park, Chicago, IL',
+      description: 'In dense urban environments like Jackson Park, Chicago, U-Net+ successfully distinguishes boats from water and handles complex harbor edges.',
+      iou: 82.1,
+      f1: 92.7,
+    },
+    {
+      id: 'gary',
+      title: 'Industrial Case Study: Gary, IN',
+      location: 'Gary, IN',
+      description: 'Successfully identifies thin canals and polluted water in industrial zones where other models often fail due to low contrast and debris.',
+      iou: 80.9,
+      f1: 92.1,
+    },
+  ],
+  authors: [
+    { name: 'Madhu Goutham Reddy Ambati', role: 'Lead Author', affiliation: 'Dept. of Computer Science, NIU' },
+    { name: 'Nischal Vooda', role: 'Co-Author', affiliation: 'Dept. of Computer Science, NIU' },
+    { name: 'Mohammed Sohaib Uddin', role: 'Co-Author', affiliation: 'College of Business, NIU' },
+    { name: 'Abdul Rahman Shaikh', role: 'Co-Author', affiliation: 'Dept. of Computer Science, NIU' },
+    { name: 'Mani Sai Lakshmi Karasani', role: 'Co-Author', affiliation: 'Dept. of Computer Science, NIU' },
+    { name: 'M. Courtney Hughes', role: 'Co-Author', affiliation: 'College of Health & Human Sciences, NIU' },
+    { name: 'Mahdi Vaezi', role: 'Corresponding Author', affiliation: 'College of Engineering, NIU' },
+  ],
+  limitations: [
+    {
+      title: 'Reliance on RGB',
+      detail: 'The model uses only Red, Green, Blue channels. It lacks Near-Infrared (NIR) bands (common in Landsat/Sentinel), yet achieves high accuracy through deep learning feature extraction.',
+    },
+    { title: 'Clouds and haze', detail: 'Heavy cloud cover or thick atmospheric haze can obstruct detection.' },
+    { title: 'Urban shadows', detail: 'Extreme shadows in dense urban canyons (skyscrapers) may occasionally result in false negatives.' },
+    { title: 'Ice and snow', detail: 'Frozen water bodies or snow cover in winter are not the primary target and may be misclassified.' },
+    { title: 'Seasonality', detail: 'The dataset captures specific temporal snapshots; highly ephemeral streams (dry season) might be underrepresented.' },
+  ],
+});
+
+// --- Derived helpers ---
+
+export const OUR_MODEL = CONTENT.benchmarks.models.find(m => m.isOurs)!;
+
+/** The most accurate model by F1, used for the speed comparison in the copy. */
+export const MOST_ACCURATE_MODEL = CONTENT.benchmarks.models.reduce((best, m) => (m.f1 > best.f1 ? m : best));
+
+export const formatCount = (n: number) => n.toLocaleString('en-US');
+
+/** 1_480_000_000 -> "1.48 billion" */
+export const formatBillions = (n: number) => `${+(n / 1e9).toFixed(2)} billion`;
+
+/** 1_480_000_000 -> "1.48B" */
+export const formatCompact = (n: number) =>
+  n >= 1e9 ? `${+(n / 1e9).toFixed(2)}B` : n >= 1e6 ? `${+(n / 1e6).toFixed(1)}M` : formatCount(n);
+
+export const formatMeters = (m: number) => `${m}m`;
+
+/** 21000 -> "21k" */
+export const formatKilo = (n: number) => `${+(n / 1000).toFixed(1)}k`;
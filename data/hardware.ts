@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT } from './content';
+
+// GPUs that leaderboard FPS figures may be reported on. FPS measured on
+// different cards isn't directly comparable, so each result is rescaled to the
+// paper's reference GPU by peak FP32 throughput (vendor spec sheets). That is a
+// rough proxy (memory bandwidth, precision and batch size matter too), so
+// normalized FPS is shown as an estimate next to the reported figure.
+
+export interface HardwareProfile {
+  id: string;
+  label: string;
+  fp32Tflops: number;
+  /**
+   * Every normalized name (see normalizeName) this exact SKU is reported as.
+   * Variants with different throughput (Ti, Super, laptop, PCIe vs SXM) are
+   * separate profiles or left unknown, never folded into a neighbour.
+   */
+  aliases: string[];
+}
+
+export const HARDWARE: HardwareProfile[] = [
+  { id: 'rtx-4090', label: 'RTX 4090', fp32Tflops: 82.6, aliases: ['rtx4090', '4090'] },
+  { id: 'rtx-4080', label: 'RTX 4080', fp32Tflops: 48.7, aliases: ['rtx4080', '4080'] },
+  { id: 'rtx-3090-ti', label: 'RTX 3090 Ti', fp32Tflops: 40.0, aliases: ['rtx3090ti', '3090ti'] },
+  { id: 'rtx-3090', label: 'RTX 3090', fp32Tflops: 35.6, aliases: ['rtx3090', '3090'] },
+  { id: 'rtx-3080', label: 'RTX 3080', fp32Tflops: 29.8, aliases: ['rtx3080', '3080'] },
+  { id: 'rtx-3060', label: 'RTX 3060', fp32Tflops: 12.7, aliases: ['rtx3060', '3060'] },
+  { id: 'rtx-2080-ti', label: 'RTX 2080 Ti', fp32Tflops: 13.4, aliases: ['rtx2080ti', '2080ti'] },
+  { id: 'titan-rtx', label: 'Titan RTX', fp32Tflops: 16.3, aliases: ['titanrtx'] },
+  { id: 'rtx-a6000', label: 'RTX A6000', fp32Tflops: 38.7, aliases: ['rtxa6000', 'a6000'] },
+  // A bare "H100" or "V100" could be either form factor, so it stays unknown.
+  { id: 'h100-sxm', label: 'H100 SXM', fp32Tflops: 67.0, aliases: ['h100sxm', 'h100sxm5'] },
+  { id: 'h100-pcie', label: 'H100 PCIe', fp32Tflops: 51.2, aliases: ['h100pcie'] },
+  { id: 'a100', label: 'A100', fp32Tflops: 19.5, aliases: ['a100', 'a100pcie', 'a100sxm', 'a100sxm4'] },
+  { id: 'a10', label: 'A10', fp32Tflops: 31.2, aliases: ['a10'] },
+  { id: 'l4', label: 'L4', fp32Tflops: 30.3, aliases: ['l4'] },
+  { id: 'v100-sxm2', label: 'V100 SXM2', fp32Tflops: 15.7, aliases: ['v100sxm2', 'v100sxm'] },
+  { id: 'v100-pcie', label: 'V100 PCIe', fp32Tflops: 14.0, aliases: ['v100pcie'] },
+  { id: 't4', label: 'T4', fp32Tflops: 8.1, aliases: ['t4'] },
+];
+
+// Words that name the vendor or the memory size, which don't change the SKU's throughput.
+const VENDOR_WORDS = /nvidia|geforce|tesla|quadro/g;
+const MEMORY_SIZE = /\b\d+\s*gb\b/g;
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(VENDOR_WORDS, '').replace(MEMORY_SIZE, '').replace(/[^a-z0-9]/g, '');
+
+const BY_ALIAS = new Map(HARDWARE.flatMap(h => h.aliases.map(alias => [alias, h] as const)));
+
+/**
+ * Resolves a reported GPU name ("NVIDIA GeForce RTX 3090 24GB") to a known
+ * profile. Only exact aliases match: "RTX 3060 Ti" or "L40S" are unknown, not
+ * an RTX 3060 or an L4, and their FPS is left unnormalized.
+ */
+export const resolveHardware = (name: string): HardwareProfile | undefined => BY_ALIAS.get(normalizeName(name));
+
+const reference = resolveHardware(CONTENT.benchmarks.hardware);
+if (!reference) throw new Error(`Reference hardware "${CONTENT.benchmarks.hardware}" is not in HARDWARE`);
+
+/** The GPU the paper's benchmarks were measured on; normalized FPS is expressed on it. */
+export const REFERENCE_HARDWARE: HardwareProfile = reference;
+
+/** FPS rescaled to the reference GPU, or undefined when the hardware is unknown. */
+export const normalizeFps = (fps: number, hardware: string): number | undefined => {
+  const profile = resolveHardware(hardware);
+  return profile ? fps * (REFERENCE_HARDWARE.fp32Tflops / profile.fp32Tflops) : undefined;
+};
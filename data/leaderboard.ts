@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LeaderboardEntry, LeaderboardManifest, LeaderboardSource } from '../types';
+import { CONTENT } from './content';
+import { normalizeFps, resolveHardware } from './hardware';
+import { SchemaError, Validator, array, assertUnique, number, object, oneOf, optional, string } from './schema';
+
+// Loader and validator for external results on USS-Water. Submissions live in
+// `public/data/leaderboard.v1.json`; the paper's own Table 3 rows always come
+// from CONTENT and are merged in, so they can't drift or be overridden.
+
+export const LEADERBOARD_VERSION = 1;
+export const LEADERBOARD_URL = `${import.meta.env.BASE_URL}data/leaderboard.v${LEADERBOARD_VERSION}.json`;
+
+export const LEADERBOARD_SOURCES: readonly LeaderboardSource[] = ['paper', 'community'];
+
+const percent = () => number({ min: 0, max: 100 });
+
+const httpUrl = (): Validator<string> => (value, path) => {
+  const s = string()(value, path);
+  if (!/^https?:\/\/\S+$/.test(s)) throw new SchemaError(path, 'expected http(s) URL');
+  return s;
+};
+
+const isoDate = (): Validator<string> => (value, path) => {
+  const s = string()(value, path);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || Number.isNaN(Date.parse(s))) throw new SchemaError(path, 'expected YYYY-MM-DD date');
+  return s;
+};
+
+const manifestSchema = object({
+  version: number({ integer: true }),
+  entries: array(object({
+    id: string({ minLength: 1 }),
+    model: string({ minLength: 1 }),
+    source: oneOf(LEADERBOARD_SOURCES),
+    reportedBy: string({ minLength: 1 }),
+    url: optional(httpUrl()),
+    f1: percent(),
+    iou: optional(percent()),
+    fps: number({ min: 0 }),
+    hardware: string({ minLength: 1 }),
+    vramGb: optional(number({ min: 0 })),
+    submitted: optional(isoDate()),
+  })),
+});
+
+/** Table 3 of the paper, as leaderboard rows. */
+export const PAPER_ENTRIES: LeaderboardEntry[] = CONTENT.benchmarks.models.map(m => ({
+  id: m.id,
+  model: m.name,
+  source: 'paper',
+  reportedBy: `${CONTENT.paper.shortTitle} (${CONTENT.paper.journal} ${CONTENT.paper.year})`,
+  f1: m.f1,
+  iou: m.iou,
+  fps: m.fps,
+  hardware: CONTENT.benchmarks.hardware,
+  vramGb: m.vramGb,
+  isOurs: m.isOurs,
+}));
+
+export const parseLeaderboard = (raw: unknown): LeaderboardManifest => {
+  const manifest = manifestSchema(raw, '');
+  if (manifest.version !== LEADERBOARD_VERSION) {
+    throw new SchemaError('version', `unsupported leaderboard version ${manifest.version} (expected ${LEADERBOARD_VERSION})`);
+  }
+  const entries: LeaderboardEntry[] = manifest.entries.map(e => ({ ...e, isOurs: false }));
+
+  assertUnique([...PAPER_ENTRIES, ...entries], e => e.id, 'entries');
+  entries.forEach((e, i) => {
+    if (e.source === 'paper' && !e.url) throw new SchemaError(`entries[${i}].url`, 'paper-reported entries must link the paper');
+    // F1 >= IoU for any single binary mask, see parseSiteContent.
+    if (e.iou !== undefined && e.iou > e.f1) throw new SchemaError(`entries[${i}].iou`, 'IoU cannot exceed F1');
+  });
+
+  return { version: LEADERBOARD_VERSION, entries };
+};
+
+/** A leaderboard row with its FPS rescaled to the reference GPU, when the GPU is known. */
+export interface RankedEntry extends LeaderboardEntry {
+  hardwareLabel: string;
+  normalizedFps?: number;
+}
+
+export const rankEntries = (entries: LeaderboardEntry[]): RankedEntry[] =>
+  entries.map(e => ({
+    ...e,
+    hardwareLabel: resolveHardware(e.hardware)?.label ?? e.hardware,
+    normalizedFps: normalizeFps(e.fps, e.hardware),
+  }));
+
+export const fetchLeaderboard = async (signal?: AbortSignal): Promise<LeaderboardEntry[]> => {
+  const res = await fetch(LEADERBOARD_URL, { signal });
+  if (!res.ok) throw new Error(`Failed to load leaderboard (${res.status})`);
+  return [...PAPER_ENTRIES, ...parseLeaderboard(await res.json()).entries];
+};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LocationFilter, LocationManifest, SampleLocation, WaterClassId } from '../types';
+import { CONTENT, WATER_CLASS_IDS } from './content';
+import { SchemaError, array, assertUnique, boolean, number, object, oneOf, optional, record, string } from './schema';
+import { STATE_CODES } from './states';
+
+// Loader and validator for the sample-location manifest served from
+// `public/data/locations.json`. Totals are checked against CONTENT so the map
+// can't silently disagree with the stats quoted elsewhere on the page.
+
+export const LOCATION_MANIFEST_URL = `${import.meta.env.BASE_URL}data/locations.json`;
+
+const manifestSchema = object({
+  version: number({ min: 1, integer: true }),
+  placeholder: optional(boolean()),
+  locations: array(object({
+    id: string({ minLength: 1 }),
+    state: oneOf(STATE_CODES),
+    lat: number({ min: -90, max: 90 }),
+    lon: number({ min: -180, max: 180 }),
+    images: number({ min: 1, integer: true }),
+    pixels: number({ min: 1, integer: true }),
+    classMix: record(WATER_CLASS_IDS, number({ min: 0, max: 1 })),
+  }), { minLength: 1 }),
+});
+
+export const parseLocationManifest = (raw: unknown): LocationManifest => {
+  const manifest: LocationManifest = manifestSchema(raw, '');
+  const { locations } = manifest;
+  assertUnique(locations, l => l.id, 'locations');
+
+  locations.forEach((l, i) => {
+    const water = WATER_CLASS_IDS.reduce((sum, c) => sum + l.classMix[c], 0);
+    if (water > 1.0001) throw new SchemaError(`locations[${i}].classMix`, 'class shares sum to more than 1');
+  });
+
+  const { dataset } = CONTENT;
+  const totals = summarizeLocations(locations);
+  if (locations.length !== dataset.locations) {
+    throw new SchemaError('locations', `expected ${dataset.locations} locations, got ${locations.length}`);
+  }
+  if (totals.states !== dataset.states) {
+    throw new SchemaError('locations', `expected ${dataset.states} states, got ${totals.states}`);
+  }
+  if (totals.images !== dataset.images) {
+    throw new SchemaError('locations', `expected ${dataset.images} images, got ${totals.images}`);
+  }
+  if (totals.pixels !== dataset.labeledPixels) {
+    throw new SchemaError('locations', `expected ${dataset.labeledPixels} pixels, got ${totals.pixels}`);
+  }
+  return manifest;
+};
+
+/**
+ * Totals for a set of locations. `classPixels` counts only the pixels of the
+ * given classes (all classes when empty), which is what the filter legend shows.
+ */
+export const summarizeLocations = (locations: SampleLocation[], classes: WaterClassId[] = []) => {
+  const counted = classes.length ? classes : WATER_CLASS_IDS;
+  return {
+    locations: locations.length,
+    states: new Set(locations.map(l => l.state)).size,
+    images: locations.reduce((sum, l) => sum + l.images, 0),
+    pixels: locations.reduce((sum, l) => sum + l.pixels, 0),
+    classPixels: Math.round(locations.reduce((sum, l) => sum + counted.reduce((s, c) => s + l.pixels * l.classMix[c], 0), 0)),
+  };
+};
+
+export const EMPTY_FILTER: LocationFilter = { classes: [], state: null };
+
+export const isFilterActive = (filter: LocationFilter) => filter.classes.length > 0 || filter.state !== null;
+
+/** A location matches when it is in the selected state and contains any of the selected classes. */
+export const matchesFilter = (location: SampleLocation, filter: LocationFilter) =>
+  (filter.state === null || location.state === filter.state) &&
+  (filter.classes.length === 0 || filter.classes.some(c => location.classMix[c] > 0));
+
+export const filterLocations = (locations: SampleLocation[], filter: LocationFilter) =>
+  isFilterActive(filter) ? locations.filter(l => matchesFilter(l, filter)) : locations;
+
+export const fetchLocationManifest = async (signal?: AbortSignal): Promise<LocationManifest> => {
+  const res = await fetch(LOCATION_MANIFEST_URL, { signal });
+  if (!res.ok) throw new Error(`Failed to load location manifest (${res.status})`);
+  return parseLocationManifest(await res.json());
+};
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import paperMarkdown from './paper/uss-water.md?raw';
+import type { Passage } from '../lib/retrieval/chunk';
+import { createPassageRetriever } from '../lib/retrieval/retriever';
+
+// The paper text the assistant answers from (for now a summary; see the note in
+// paper/uss-water.md), chunked and indexed in the browser.
+// The chat proxy indexes the same file server-side (see server/).
+
+export type { Passage } from '../lib/retrieval/chunk';
+
+const retriever = createPassageRetriever(paperMarkdown);
+
+export const PAPER_PASSAGES: Passage[] = retriever.passages;
+
+export const retrievePassages = (question: string, limit = 3): Passage[] => retriever.retrieve(question, limit);
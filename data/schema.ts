@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal runtime schema helpers. Each validator takes an unknown value and the
+// path it was found at, and either returns the typed value or throws a
+// SchemaError pointing at the offending field.
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path || '<root>'}: ${message}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export const string = (opts: { minLength?: number; maxLength?: number } = {}): Validator<string> => (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, `expected string, got ${typeof value}`);
+  if (opts.minLength !== undefined && value.length < opts.minLength) {
+    throw new SchemaError(path, `expected at least ${opts.minLength} characters`);
+  }
+  if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+    throw new SchemaError(path, `expected at most ${opts.maxLength} characters`);
+  }
+  return value;
+};
+
+export const number = (opts: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'expected finite number');
+  if (opts.integer && !Number.isInteger(value)) throw new SchemaError(path, 'expected integer');
+  if (opts.min !== undefined && value < opts.min) throw new SchemaError(path, `expected >= ${opts.min}, got ${value}`);
+  if (opts.max !== undefined && value > opts.max) throw new SchemaError(path, `expected <= ${opts.max}, got ${value}`);
+  return value;
+};
+
+export const boolean = (): Validator<boolean> => (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'expected boolean');
+  return value;
+};
+
+export const oneOf = <T extends string>(options: readonly T[]): Validator<T> => (value, path) => {
+  if (typeof value !== 'string' || !options.includes(value as T)) {
+    throw new SchemaError(path, `expected one of ${options.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined ? undefined : inner(value, path);
+
+export const array = <T>(item: Validator<T>, opts: { minLength?: number; maxLength?: number } = {}): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'expected array');
+  if (opts.minLength !== undefined && value.length < opts.minLength) {
+    throw new SchemaError(path, `expected at least ${opts.minLength} items`);
+  }
+  if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+    throw new SchemaError(path, `expected at most ${opts.maxLength} items`);
+  }
+  return value.map((v, i) => item(v, `${path}[${i}]`));
+};
+
+export const record = <K extends string, T>(keys: readonly K[], item: Validator<T>): Validator<Record<K, T>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'expected object');
+  const input = value as Record<string, unknown>;
+  const unknownKey = Object.keys(input).find(k => !keys.includes(k as K));
+  if (unknownKey) throw new SchemaError(`${path}.${unknownKey}`, 'unexpected key');
+  const out = {} as Record<K, T>;
+  for (const key of keys) out[key] = item(input[key], `${path}.${key}`);
+  return out;
+};
+
+type Shape = Record<string, Validator<unknown>>;
+type Infer<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+export const object = <S extends Shape>(shape: S): Validator<Infer<S>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'expected object');
+  const input = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(shape)) {
+    const parsed = shape[key](input[key], path ? `${path}.${key}` : key);
+    if (parsed !== undefined) out[key] = parsed;
+  }
+  return out as Infer<S>;
+};
+
+/** Throws if two items share the same key, e.g. duplicate ids in a list. */
+export const assertUnique = <T>(items: T[], key: (item: T) => string, path: string) => {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    const k = key(item);
+    if (seen.has(k)) throw new SchemaError(`${path}[${i}]`, `duplicate "${k}"`);
+    seen.add(k);
+  });
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT } from './content';
+
+// Page anchors the assistant may cite as markdown links, e.g. `[results](#results)`,
+// and other page targets it can point at.
+// Ids must match the `id`s rendered in App.tsx.
+
+export interface SiteSection {
+  id: string;
+  label: string;
+}
+
+export const SITE_SECTIONS: SiteSection[] = [
+  { id: 'intro', label: 'Overview' },
+  { id: 'dataset', label: 'Dataset' },
+  { id: 'model', label: `${CONTENT.model.name} Model` },
+  { id: 'results', label: 'Results' },
+  ...CONTENT.caseStudies.map(c => ({ id: `case-${c.id}`, label: c.title })),
+  { id: 'authors', label: 'Authors' },
+];
+
+/** The section a `#id` link points at, if it is one we render. */
+export const resolveSectionLink = (href: string | undefined): SiteSection | undefined =>
+  href?.startsWith('#') ? SITE_SECTIONS.find(s => s.id === href.slice(1)) : undefined;
+
+// Stages of the pipeline in ArchitectureDiagram, in order.
+export const ARCHITECTURE_STEPS = [
+  { id: 'input', label: 'High-resolution input' },
+  { id: 'patch', label: 'Patch compression' },
+  { id: 'model', label: 'Depth-wise separable convolutions' },
+  { id: 'output', label: 'Segmentation mask' },
+] as const;
+
+export type ArchitectureStep = typeof ARCHITECTURE_STEPS[number]['id'];
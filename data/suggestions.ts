@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT, OUR_MODEL } from './content';
+
+// Questions offered as chips in the chat: starters for the section in view,
+// and fallback follow-ups when a reply doesn't suggest its own. Keys are
+// SITE_SECTIONS ids. Every question here is one the paper can answer.
+
+const { model, benchmarks, caseStudies } = CONTENT;
+const others = benchmarks.models.filter(m => !m.isOurs);
+const slowest = others.reduce((a, b) => (b.fps < a.fps ? b : a));
+const closest = others.reduce((a, b) => (Math.abs(b.fps - OUR_MODEL.fps) < Math.abs(a.fps - OUR_MODEL.fps) ? b : a));
+
+export const SECTION_QUESTIONS: Record<string, string[]> = {
+  intro: [
+    `What is ${CONTENT.paper.shortTitle}?`,
+    `What makes ${model.name} fast?`,
+    'Where can I get the code and data?',
+  ],
+  dataset: [
+    'Which water classes are labeled?',
+    'How many states does the dataset cover?',
+    'What imagery is the dataset built from?',
+  ],
+  model: [
+    'Show me how patch compression works',
+    'What are depth-wise separable convolutions?',
+    `How many parameters does ${model.name} save?`,
+  ],
+  results: [
+    `Why is ${slowest.name} slower?`,
+    `How accurate is ${OUR_MODEL.name}?`,
+    `How does ${OUR_MODEL.name} compare to ${closest.name}?`,
+  ],
+  ...Object.fromEntries(caseStudies.map(c => [`case-${c.id}`, [
+    `How well does the model do in ${c.location}?`,
+    `Show the ${c.location} comparison`,
+    'What are the model\'s known limitations?',
+  ]])),
+  authors: [
+    'Who wrote the paper?',
+    'Where can I get the code and data?',
+    'Which university is the team from?',
+  ],
+};
+
+/** Starter questions for the section in view, or the overview's. */
+export const starterQuestions = (sectionId: string | null): string[] =>
+  SECTION_QUESTIONS[sectionId ?? ''] ?? SECTION_QUESTIONS.intro;
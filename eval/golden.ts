@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readFileSync } from 'node:fs';
+import { SchemaError, Validator, array, assertUnique, number, object, oneOf, optional, string } from '../data/schema';
+
+// Golden questions for the assistant, versioned like the data manifests:
+// a change to the set is a new golden.vN.json, so reports from different
+// sets are never compared by accident.
+//
+//   factual      every fact must appear in the answer
+//   not-covered  the paper excerpts don't answer it; the assistant must say so
+//   off-topic    unrelated to the paper; the assistant must steer back (BEHAVIOR)
+
+export const GOLDEN_VERSION = 1;
+
+export type QuestionKind = 'factual' | 'not-covered' | 'off-topic';
+
+export interface GoldenQuestion {
+  id: string;
+  kind: QuestionKind;
+  question: string;
+  /** Each fact is one string, or a list of accepted spellings. */
+  facts: string[][];
+}
+
+const fact: Validator<string[]> = (value, path) =>
+  typeof value === 'string' ? [string({ minLength: 1 })(value, path)] : array(string({ minLength: 1 }), { minLength: 1 })(value, path);
+
+const goldenSchema = object({
+  version: number({ integer: true }),
+  questions: array(object({
+    id: string({ minLength: 1 }),
+    kind: oneOf(['factual', 'not-covered', 'off-topic'] as const),
+    question: string({ minLength: 1 }),
+    facts: optional(array(fact)),
+  }), { minLength: 1 }),
+});
+
+export const parseGolden = (raw: unknown): GoldenQuestion[] => {
+  const golden = goldenSchema(raw, '');
+  if (golden.version !== GOLDEN_VERSION) throw new SchemaError('version', `expected ${GOLDEN_VERSION}, got ${golden.version}`);
+  assertUnique(golden.questions, q => q.id, 'questions');
+  return golden.questions.map((q, i) => {
+    const facts = q.facts ?? [];
+    if (q.kind === 'factual' && facts.length === 0) throw new SchemaError(`questions[${i}].facts`, 'factual questions need at least one fact');
+    return { ...q, facts };
+  });
+};
+
+export const loadGolden = (): GoldenQuestion[] =>
+  parseGolden(JSON.parse(readFileSync(new URL(`./golden.v${GOLDEN_VERSION}.json`, import.meta.url), 'utf8')));
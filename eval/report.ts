@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { QuestionScore } from './score';
+
+// Reports are written to be diffed between prompt versions: no timestamps or
+// timings, questions in golden-set order, and replies only in the JSON file.
+
+export interface EvalResult extends QuestionScore {
+  question: string;
+  reply: string;
+  /** Set when the provider failed; the reply is then whatever arrived. */
+  error?: string;
+}
+
+export interface EvalReport {
+  goldenVersion: number;
+  provider: string;
+  /** First 12 hex digits of the system prompt's SHA-256, to tell prompt versions apart. */
+  promptHash: string;
+  results: EvalResult[];
+}
+
+export const summarize = ({ results }: EvalReport) => {
+  const factual = results.filter(r => r.kind === 'factual');
+  const guarded = results.filter(r => r.handled !== undefined);
+  return {
+    questions: results.length,
+    passed: results.filter(r => r.pass).length,
+    factCoverage: factual.length ? factual.reduce((sum, r) => sum + r.coverage, 0) / factual.length : 1,
+    hallucinatedNumbers: results.reduce((sum, r) => sum + r.hallucinatedNumbers.length, 0),
+    handled: `${guarded.filter(r => r.handled).length}/${guarded.length}`,
+    errors: results.filter(r => r.error).length,
+  };
+};
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+const cell = (items: string[]) => (items.length ? items.join(', ').replace(/\|/g, '\\|') : '–');
+
+export const reportToMarkdown = (report: EvalReport): string => {
+  const s = summarize(report);
+  const lines = [
+    `# Assistant evaluation: ${report.provider}`,
+    '',
+    `Golden set v${report.goldenVersion} · system prompt \`${report.promptHash}\``,
+    '',
+    '| Questions | Passed | Fact coverage | Hallucinated numbers | Not-covered / off-topic handled | Errors |',
+    '|---|---|---|---|---|---|',
+    `| ${s.questions} | ${s.passed} | ${pct(s.factCoverage)} | ${s.hallucinatedNumbers} | ${s.handled} | ${s.errors} |`,
+    '',
+    '| Question | Kind | Pass | Coverage | Missing facts | Hallucinated numbers | Handled |',
+    '|---|---|---|---|---|---|---|',
+    ...report.results.map(r =>
+      `| ${r.id} | ${r.kind} | ${r.pass ? 'yes' : '**no**'} | ${pct(r.coverage)} | ${cell(r.missingFacts)} | ${cell(r.hallucinatedNumbers)} | ${r.handled === undefined ? '–' : r.handled ? 'yes' : '**no**'}${r.error ? ` (error: ${r.error})` : ''} |`,
+    ),
+    '',
+  ];
+  return lines.join('\n');
+};
+
+export const reportToJson = (report: EvalReport): string =>
+  JSON.stringify({ ...report, summary: summarize(report) }, null, 2) + '\n';
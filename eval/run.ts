@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash } from 'node:crypto';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { CONTENT } from '../data/content';
+import { buildSystemInstruction } from '../data/systemInstruction';
+import { stripFollowUps } from '../lib/chat/followups';
+import { createMockProvider } from '../lib/chat/mock';
+import { createProxyProvider } from '../lib/chat/proxy';
+import { stripToolBlocks } from '../lib/chat/tools';
+import type { ChatProvider } from '../lib/chat/types';
+import { loadProxyConfig } from '../server/config';
+import { connectUpstream, loadPaperRetriever } from '../server/upstream';
+import { loadGolden, GOLDEN_VERSION } from './golden';
+import { EvalReport, EvalResult, reportToJson, reportToMarkdown, summarize } from './report';
+import { scoreReply } from './score';
+
+// Runs the golden questions against a chat provider and writes
+// eval/reports/<name>.md and .json:
+//
+//   npm run eval                              offline mock (default)
+//   npm run eval -- --provider stub           local stub model over HTTP
+//   npm run eval -- --provider gemini         GEMINI_API_KEY, GEMINI_MODEL
+//   npm run eval -- --provider openai         OPENAI_BASE_URL, OPENAI_MODEL, ...
+//   npm run eval -- --provider proxy --proxy-url http://127.0.0.1:8787/api/chat
+//
+// Options: --name <report name> (default: the provider), --only id1,id2,
+// --strict (exit 1 unless every question passes).
+
+const PROVIDERS = ['mock', 'stub', 'gemini', 'openai', 'proxy'] as const;
+type EvalProvider = typeof PROVIDERS[number];
+const QUESTION_TIMEOUT_MS = 60_000;
+
+const { values: args } = parseArgs({
+  options: {
+    provider: { type: 'string', default: 'mock' },
+    'proxy-url': { type: 'string', default: 'http://127.0.0.1:8787/api/chat' },
+    name: { type: 'string' },
+    only: { type: 'string' },
+    strict: { type: 'boolean', default: false },
+  },
+});
+
+if (!PROVIDERS.includes(args.provider as EvalProvider)) {
+  console.error(`Unknown provider "${args.provider}". Use one of ${PROVIDERS.join(', ')}.`);
+  process.exit(2);
+}
+const providerId = args.provider as EvalProvider;
+
+const systemInstruction = buildSystemInstruction();
+const retriever = loadPaperRetriever();
+
+const connect = async (): Promise<{ provider: ChatProvider; close: () => void }> => {
+  switch (providerId) {
+    case 'mock':
+      return { provider: createMockProvider(0), close: () => {} };
+    case 'proxy':
+      return { provider: createProxyProvider({ url: args['proxy-url']!, label: `proxy (${args['proxy-url']})` }), close: () => {} };
+    default:
+      return connectUpstream(loadProxyConfig({ ...process.env, CHAT_UPSTREAM: providerId }), systemInstruction);
+  }
+};
+
+const only = args.only?.split(',').map(id => id.trim());
+const questions = loadGolden().filter(q => !only || only.includes(q.id));
+// What the model was given; any other number in a reply was made up.
+const sources = [systemInstruction, ...retriever.passages.flatMap(p => [p.section, p.text])];
+const scopeTerms = [CONTENT.paper.shortTitle, CONTENT.model.name, 'paper', 'dataset', 'water'];
+
+const { provider, close } = await connect();
+const results: EvalResult[] = [];
+try {
+  for (const q of questions) {
+    const passages = retriever.retrieve(q.question);
+    let reply = '';
+    let error: string | undefined;
+    try {
+      for await (const delta of provider.stream({ history: [], message: q.question, passages }, AbortSignal.timeout(QUESTION_TIMEOUT_MS))) {
+        reply += delta;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    // Scored as the reader sees it: without action and follow-up blocks.
+    const visible = stripFollowUps(stripToolBlocks(reply));
+    const score = scoreReply(q, visible, sources, scopeTerms);
+    results.push({ ...score, pass: score.pass && !error, question: q.question, reply: visible, ...(error && { error }) });
+    console.error(`${score.pass && !error ? 'pass' : 'FAIL'}  ${q.id}`);
+  }
+} finally {
+  close();
+}
+
+const report: EvalReport = {
+  goldenVersion: GOLDEN_VERSION,
+  provider: provider.label,
+  promptHash: createHash('sha256').update(systemInstruction).digest('hex').slice(0, 12),
+  results,
+};
+const outDir = new URL('./reports/', import.meta.url);
+const name = args.name ?? providerId;
+mkdirSync(outDir, { recursive: true });
+writeFileSync(new URL(`${name}.md`, outDir), reportToMarkdown(report));
+writeFileSync(new URL(`${name}.json`, outDir), reportToJson(report));
+
+const summary = summarize(report);
+console.error(`\n${summary.passed}/${summary.questions} passed, fact coverage ${(summary.factCoverage * 100).toFixed(1)}%, ${summary.hallucinatedNumbers} hallucinated numbers. Report: eval/reports/${name}.md`);
+if (args.strict && summary.passed < summary.questions) process.exit(1);
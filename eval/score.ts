@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GoldenQuestion } from './golden';
+
+// Scores one reply against its golden question. Deliberately simple string
+// checks: they are stable across runs and easy to read in a diff, which
+// matters more here than catching every paraphrase.
+
+export interface QuestionScore {
+  id: string;
+  kind: GoldenQuestion['kind'];
+  /** Facts found / facts expected (1 when none are expected). */
+  coverage: number;
+  missingFacts: string[];
+  /** Numbers in the reply that appear nowhere in the prompt, the paper or the question. */
+  hallucinatedNumbers: string[];
+  /** not-covered: says the paper doesn't cover it. off-topic: steers back to the paper. */
+  handled?: boolean;
+  pass: boolean;
+}
+
+// "1,483 images" matches "1483 images"; "4.2GB" matches "4.2 GB"; "512×512" matches "512x512".
+const normalize = (text: string) => text.toLowerCase().replace(/×/g, 'x').replace(/[\s,]/g, '');
+
+const NUMBER = /\d[\d,]*(?:\.\d+)?/g;
+// Markdown link targets and URLs carry digits that aren't claims.
+const URL_OR_LINK_TARGET = /\]\([^)]*\)|https?:\/\/\S+/g;
+
+/** Canonical form, so "6.0", "6" and "6.00" compare equal. */
+const canonicalNumber = (raw: string) => String(Number(raw.replace(/,/g, '')));
+
+export const numbersIn = (text: string): string[] =>
+  [...text.replace(URL_OR_LINK_TARGET, ' ').matchAll(NUMBER)].map(m => canonicalNumber(m[0]));
+
+/**
+ * Numbers the reply states that no source mentions. Single-digit integers are
+ * ignored: list markers, "two models", "3x" and the like are too common to
+ * judge by string matching.
+ */
+export const hallucinatedNumbers = (reply: string, sources: string[]): string[] => {
+  const known = new Set(sources.flatMap(numbersIn));
+  const suspicious = numbersIn(reply).filter(n => !known.has(n) && !(Number.isInteger(Number(n)) && Number(n) < 10));
+  return [...new Set(suspicious)];
+};
+
+const NOT_COVERED = /\b(doesn't|does not|don't|do not|didn't|did not)\s+(cover|mention|report|specify|state|include|say)|\bnot\s+(covered|mentioned|reported|specified|stated|available|included)\b|\bno\s+(information|details?|mention)\b/i;
+
+export const scoreReply = (q: GoldenQuestion, reply: string, sources: string[], scopeTerms: string[]): QuestionScore => {
+  const text = normalize(reply);
+  const missingFacts = q.facts.filter(spellings => !spellings.some(s => text.includes(normalize(s)))).map(spellings => spellings[0]);
+  const coverage = q.facts.length ? (q.facts.length - missingFacts.length) / q.facts.length : 1;
+  const invented = hallucinatedNumbers(reply, [...sources, q.question]);
+
+  let handled: boolean | undefined;
+  if (q.kind === 'not-covered') handled = NOT_COVERED.test(reply);
+  if (q.kind === 'off-topic') handled = scopeTerms.some(t => text.includes(normalize(t)));
+
+  return {
+    id: q.id,
+    kind: q.kind,
+    coverage,
+    missingFacts,
+    hallucinatedNumbers: invented,
+    handled,
+    pass: missingFacts.length === 0 && invented.length === 0 && handled !== false,
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { SITE_SECTIONS } from '../data/sections';
+
+// Fraction of the viewport height, from the top, where a section counts as "in view".
+const READING_LINE = 0.4;
+
+/**
+ * The SITE_SECTIONS id under the reading line, or null above the first one.
+ * Nested sections (case studies inside results) win over their parent since
+ * they come later in SITE_SECTIONS.
+ *
+ * The observer's root is shrunk to a hairline band at the reading line, so a
+ * section "intersects" exactly while it spans that line.
+ */
+export const useActiveSection = () => {
+  const [active, setActive] = useState<string | null>(null);
+
+  useEffect(() => {
+    const crossing = new Set<string>();
+    const observer = new IntersectionObserver(
+      entries => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) crossing.add(entry.target.id);
+          else crossing.delete(entry.target.id);
+        }
+        setActive(SITE_SECTIONS.reduce<string | null>((current, { id }) => (crossing.has(id) ? id : current), null));
+      },
+      { rootMargin: `-${READING_LINE * 100}% 0px -${100 - READING_LINE * 100 - 0.1}% 0px` },
+    );
+    for (const { id } of SITE_SECTIONS) {
+      const element = document.getElementById(id);
+      if (element) observer.observe(element);
+    }
+    return () => observer.disconnect();
+  }, []);
+
+  return active;
+};
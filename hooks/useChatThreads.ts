@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { ChatThread, ThreadMessage, createThread, loadThreads, saveThreads } from '../lib/chat/threads';
+
+// Writes are debounced: a streaming reply updates the thread on every token.
+const SAVE_DELAY_MS = 500;
+
+interface ThreadStore {
+  threads: ChatThread[];
+  activeId: string;
+}
+
+const initialStore = (): ThreadStore => {
+  const threads = loadThreads().sort((a, b) => b.updatedAt - a.updatedAt);
+  if (threads.length === 0) threads.push(createThread());
+  return { threads, activeId: threads[0].id };
+};
+
+export const useChatThreads = () => {
+  const [store, setStore] = useState<ThreadStore>(initialStore);
+
+  useEffect(() => {
+    // Empty threads are placeholders, not history.
+    const timer = setTimeout(() => saveThreads(store.threads.filter(t => t.messages.length > 0)), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [store.threads]);
+
+  const active = store.threads.find(t => t.id === store.activeId) ?? store.threads[0];
+
+  const updateThread = (id: string, patch: (thread: ChatThread) => ChatThread) =>
+    setStore(s => ({ ...s, threads: s.threads.map(t => (t.id === id ? patch(t) : t)) }));
+
+  /** Replaces a thread's messages (by id, so late stream updates land in the right thread). */
+  const setMessages = (id: string, update: (messages: ThreadMessage[]) => ThreadMessage[]) =>
+    updateThread(id, t => ({ ...t, messages: update(t.messages), updatedAt: Date.now() }));
+
+  const newThread = () =>
+    setStore(s => {
+      // Reuse an untouched thread instead of piling up empty ones.
+      const empty = s.threads.find(t => t.messages.length === 0 && !t.title);
+      if (empty) return { ...s, activeId: empty.id };
+      const thread = createThread();
+      return { threads: [thread, ...s.threads], activeId: thread.id };
+    });
+
+  const selectThread = (id: string) => setStore(s => ({ ...s, activeId: id }));
+
+  const renameThread = (id: string, title: string) => updateThread(id, t => ({ ...t, title: title.trim() }));
+
+  const clearThread = (id: string) => updateThread(id, t => ({ ...t, messages: [], updatedAt: Date.now() }));
+
+  const deleteThread = (id: string) =>
+    setStore(s => {
+      const threads = s.threads.filter(t => t.id !== id);
+      if (threads.length === 0) threads.push(createThread());
+      return { threads, activeId: s.activeId === id ? threads[0].id : s.activeId };
+    });
+
+  return { threads: store.threads, active, setMessages, newThread, selectThread, renameThread, clearThread, deleteThread };
+};
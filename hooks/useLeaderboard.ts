@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import type { LeaderboardEntry } from '../types';
+import { PAPER_ENTRIES, fetchLeaderboard } from '../data/leaderboard';
+
+/** Paper rows are always available; `error` means submissions could not be merged in. */
+export type LeaderboardState =
+  | { status: 'loading'; entries: LeaderboardEntry[] }
+  | { status: 'ready'; entries: LeaderboardEntry[] }
+  | { status: 'error'; entries: LeaderboardEntry[]; error: string };
+
+// Module-level cache so every consumer shares one request.
+let pending: Promise<LeaderboardEntry[]> | null = null;
+
+const loadLeaderboard = () => {
+  if (!pending) {
+    pending = fetchLeaderboard();
+    pending.catch(() => { pending = null; });
+  }
+  return pending;
+};
+
+export const useLeaderboard = (): LeaderboardState => {
+  const [state, setState] = useState<LeaderboardState>({ status: 'loading', entries: PAPER_ENTRIES });
+
+  useEffect(() => {
+    let active = true;
+    loadLeaderboard().then(
+      entries => active && setState({ status: 'ready', entries }),
+      (error: unknown) => {
+        console.error("Failed to load leaderboard", error);
+        if (active) setState({ status: 'error', entries: PAPER_ENTRIES, error: error instanceof Error ? error.message : String(error) });
+      },
+    );
+    return () => { active = false; };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import type { LocationManifest, SampleLocation } from '../types';
+import { fetchLocationManifest } from '../data/locations';
+
+export type ManifestState =
+  | { status: 'loading' }
+  /** `placeholder`: the locations are synthetic; say so wherever they are shown. */
+  | { status: 'ready'; locations: SampleLocation[]; placeholder: boolean }
+  | { status: 'error'; error: string };
+
+// Module-level cache so every consumer shares one request.
+let pending: Promise<LocationManifest> | null = null;
+
+const loadLocations = () => {
+  if (!pending) {
+    pending = fetchLocationManifest();
+    pending.catch(() => { pending = null; });
+  }
+  return pending;
+};
+
+export const useLocationManifest = (): ManifestState => {
+  const [state, setState] = useState<ManifestState>({ status: 'loading' });
+
+  useEffect(() => {
+    let active = true;
+    loadLocations().then(
+      ({ locations, placeholder = false }) => active && setState({ status: 'ready', locations, placeholder }),
+      (error: unknown) => {
+        console.error("Failed to load location manifest", error);
+        if (active) setState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      },
+    );
+    return () => { active = false; };
+  }, []);
+
+  return state;
+};
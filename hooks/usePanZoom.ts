@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PointerEvent, RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+export interface PanZoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: PanZoom = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Wheel-to-zoom (around the cursor) and drag-to-pan for the element behind `ref`.
+ * Apply the returned transform to an inner element with `transform-origin: 0 0`.
+ */
+export const usePanZoom = (ref: RefObject<HTMLElement>, { min = 1, max = 8 } = {}) => {
+  const [view, setView] = useState<PanZoom>(IDENTITY);
+  const drag = useRef<{ id: number; x: number; y: number } | null>(null);
+
+  const zoomBy = useCallback((factor: number, cx?: number, cy?: number) => {
+    setView(v => {
+      const scale = Math.min(max, Math.max(min, v.scale * factor));
+      const el = ref.current;
+      const px = cx ?? (el ? el.clientWidth / 2 : 0);
+      const py = cy ?? (el ? el.clientHeight / 2 : 0);
+      // Keep the point under the cursor fixed while scaling.
+      const k = scale / v.scale;
+      return scale === min ? IDENTITY : { scale, x: px - (px - v.x) * k, y: py - (py - v.y) * k };
+    });
+  }, [ref, min, max]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    // Registered manually: React's onWheel is passive and can't preventDefault.
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [ref, zoomBy]);
+
+  const handlers = {
+    onPointerDown: (e: PointerEvent) => {
+      drag.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: PointerEvent) => {
+      const d = drag.current;
+      if (!d || d.id !== e.pointerId) return;
+      const dx = e.clientX - d.x;
+      const dy = e.clientY - d.y;
+      drag.current = { ...d, x: e.clientX, y: e.clientY };
+      setView(v => (v.scale === 1 ? v : { ...v, x: v.x + dx, y: v.y + dy }));
+    },
+    onPointerUp: () => { drag.current = null; },
+    onPointerCancel: () => { drag.current = null; },
+  };
+
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+  const reset = useCallback(() => setView(IDENTITY), []);
+
+  return { view, transform, handlers, zoomBy, reset };
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FocusEvent, KeyboardEvent, useRef, useState } from 'react';
+
+type Focusable = HTMLElement | SVGElement;
+
+const STEP_KEYS: Record<string, number> = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 };
+
+/**
+ * Roving tabindex over `count` items: the group is a single Tab stop, the
+ * arrow keys (wrapping), Home and End move between items, and Enter or Space
+ * activates the focused one. Spread `itemProps(i)` onto each item.
+ *
+ * `onFocusItem` only fires for keyboard focus (`:focus-visible`), so a click
+ * or tap that focuses an item on its way to `onClick` isn't handled twice.
+ */
+export const useRovingFocus = (
+  count: number,
+  { onFocusItem, onActivate }: { onFocusItem?: (index: number) => void; onActivate?: (index: number) => void } = {},
+) => {
+  const [active, setActive] = useState(0);
+  const items = useRef<(Focusable | null)[]>([]);
+  // The list may have shrunk (e.g. a new filter) since the last focus.
+  const current = Math.min(active, Math.max(0, count - 1));
+
+  const move = (index: number) => {
+    setActive(index);
+    items.current[index]?.focus();
+  };
+
+  const itemProps = (index: number) => ({
+    ref: (el: Focusable | null) => {
+      items.current[index] = el;
+    },
+    tabIndex: index === current ? 0 : -1,
+    onFocus: (e: FocusEvent<Focusable>) => {
+      setActive(index);
+      if (e.currentTarget.matches(':focus-visible')) onFocusItem?.(index);
+    },
+    onKeyDown: (e: KeyboardEvent<Focusable>) => {
+      if (e.key in STEP_KEYS) move((index + STEP_KEYS[e.key] + count) % count);
+      else if (e.key === 'Home') move(0);
+      else if (e.key === 'End') move(count - 1);
+      else if ((e.key === 'Enter' || e.key === ' ') && onActivate) onActivate(index);
+      else return;
+      e.preventDefault();
+    },
+  });
+
+  return { itemProps, activeIndex: current };
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { ThemePreference, applyTheme, loadThemePreference, paletteFor, resolveTheme, saveThemePreference } from '../lib/theme';
+
+const useMediaQuery = (query: string) => {
+  const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
+
+  useEffect(() => {
+    const list = window.matchMedia(query);
+    const update = () => setMatches(list.matches);
+    update();
+    list.addEventListener('change', update);
+    return () => list.removeEventListener('change', update);
+  }, [query]);
+
+  return matches;
+};
+
+/**
+ * The visitor's saved theme choice, resolved against the system settings and
+ * applied to the document. Follows OS changes live for anything left on "system".
+ */
+export const useTheme = () => {
+  const [preference, setPreference] = useState<ThemePreference>(() => loadThemePreference());
+  const systemDark = useMediaQuery('(prefers-color-scheme: dark)');
+  const systemHighContrast = useMediaQuery('(prefers-contrast: more)');
+  const theme = resolveTheme(preference, { dark: systemDark, highContrast: systemHighContrast });
+
+  useEffect(() => applyTheme(theme), [theme.mode, theme.highContrast]);
+  useEffect(() => saveThemePreference(preference), [preference]);
+
+  return { preference, setPreference, theme, palette: paletteFor(theme) };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef } from 'react';
+import { ViewState, sectionFromHash, serializeViewState } from '../lib/urlState';
+import { scrollToSection } from '../lib/scroll';
+
+const currentUrl = (search: string) => `${window.location.pathname}${search}${window.location.hash}`;
+
+/**
+ * Mirrors `state` into the query string and follows the section in the hash.
+ *
+ * View changes replace the current history entry rather than adding one, so
+ * Back moves between sections (see navigateToSection) instead of undoing
+ * every slider drag. The section is scrolled to on load and on Back/Forward.
+ */
+export const useUrlSync = (state: ViewState) => {
+  const search = serializeViewState(state);
+  const latest = useRef(search);
+  latest.current = search;
+
+  useEffect(() => {
+    if (window.location.search !== search) history.replaceState(history.state, '', currentUrl(search));
+  }, [search]);
+
+  useEffect(() => {
+    const follow = (behavior: ScrollBehavior) => {
+      const section = sectionFromHash(window.location.hash);
+      if (section) scrollToSection(section, behavior);
+      else if (behavior === 'smooth') window.scrollTo({ top: 0, behavior });
+    };
+    // One frame in, so the sections have laid out.
+    const frame = requestAnimationFrame(() => follow('auto'));
+    const onPopState = () => {
+      follow('smooth');
+      // The entry we landed on may carry an older query; the page didn't change, so the URL shouldn't.
+      if (window.location.search !== latest.current) history.replaceState(history.state, '', currentUrl(latest.current));
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('popstate', onPopState);
+    };
+  }, []);
+};
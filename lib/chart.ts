@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small plotting helpers for the benchmark scatter: linear scales, readable
+// tick values and the Pareto frontier of a two-objective trade-off.
+
+export type Direction = 'higher' | 'lower';
+
+/** Maps a numeric domain onto a pixel range. */
+export const linearScale = ([d0, d1]: [number, number], [r0, r1]: [number, number]) =>
+  (v: number) => (d1 === d0 ? (r0 + r1) / 2 : r0 + ((v - d0) / (d1 - d0)) * (r1 - r0));
+
+/** Ticks at 1/2/5 × 10^n steps spanning [min, max]. */
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  if (min === max) return [min];
+  const raw = (max - min) / count;
+  const mag = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map(m => m * mag).find(s => s >= raw)!;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(+v.toFixed(10));
+  return ticks;
+};
+
+/** Domain padded by a fraction of its span so points don't sit on the axes. */
+export const paddedDomain = (values: number[], pad = 0.1): [number, number] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || Math.abs(max) || 1;
+  return [min - span * pad, max + span * pad];
+};
+
+/**
+ * Points not dominated by any other point: no other point is at least as good
+ * on both axes and strictly better on one. Returned sorted by x.
+ */
+export const paretoFrontier = <T>(
+  points: T[],
+  x: (p: T) => number,
+  y: (p: T) => number,
+  xBetter: Direction,
+  yBetter: Direction,
+): T[] => {
+  const gx = (a: number, b: number) => (xBetter === 'higher' ? a >= b : a <= b);
+  const gy = (a: number, b: number) => (yBetter === 'higher' ? a >= b : a <= b);
+  const dominates = (a: T, b: T) =>
+    gx(x(a), x(b)) && gy(y(a), y(b)) && (x(a) !== x(b) || y(a) !== y(b));
+  return points
+    .filter(p => !points.some(q => dominates(q, p)))
+    .sort((a, b) => x(a) - x(b));
+};
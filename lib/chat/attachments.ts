@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CHAT_IMAGE_LIMITS, CHAT_IMAGE_TYPES, ChatImage, ChatImageType } from './types';
+
+// Turns picked or pasted files into chat attachments: decoded in the browser,
+// downscaled to CHAT_IMAGE_LIMITS.maxSide and re-encoded as JPEG until they fit
+// the size limit, plus a small thumbnail for the thread.
+
+export interface Attachment {
+  name: string;
+  image: ChatImage;
+  /** JPEG data URL, kept with the thread for display. */
+  thumbnail: string;
+}
+
+/** Files larger than this aren't even decoded. */
+export const MAX_ATTACHMENT_FILE_BYTES = 20 * 1024 * 1024;
+const THUMBNAIL_SIDE = 160;
+const QUALITIES = [0.85, 0.7, 0.5];
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+const encodeJpeg = (bitmap: ImageBitmap, maxSide: number, quality: number): string => {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha; transparent PNG regions would otherwise turn black.
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export const prepareAttachment = async (file: File): Promise<Attachment> => {
+  if (!CHAT_IMAGE_TYPES.includes(file.type as ChatImageType)) {
+    throw new AttachmentError(`${file.name}: only PNG, JPEG or WebP images can be attached.`);
+  }
+  if (file.size > MAX_ATTACHMENT_FILE_BYTES) {
+    throw new AttachmentError(`${file.name} is larger than ${MAX_ATTACHMENT_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new AttachmentError(`${file.name} could not be read as an image.`);
+  });
+  try {
+    for (const quality of QUALITIES) {
+      const data = encodeJpeg(bitmap, CHAT_IMAGE_LIMITS.maxSide, quality).split(',')[1];
+      if (data.length <= CHAT_IMAGE_LIMITS.base64Chars) {
+        return { name: file.name, image: { mimeType: 'image/jpeg', data }, thumbnail: encodeJpeg(bitmap, THUMBNAIL_SIDE, 0.7) };
+      }
+    }
+    throw new AttachmentError(`${file.name} is too detailed to send, even downscaled.`);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SECTION_QUESTIONS } from '../../data/suggestions';
+
+// Follow-up questions a reply suggests, as a fenced block at its end:
+//
+//   ```followups
+//   ["Why is MSResNet-34 slower?", "How accurate is U-Net+?"]
+//   ```
+//
+// Replies without one (or with an unreadable one) fall back to the starter
+// questions of the sections they cite.
+
+export const MAX_FOLLOW_UPS = 3;
+const MAX_QUESTION_LENGTH = 120;
+
+const FOLLOW_UPS_BLOCK = /```followups[^\n]*\n([\s\S]*?)```/g;
+const PARTIAL_FOLLOW_UPS_BLOCK = /```followups[\s\S]*$/;
+const SECTION_LINK = /\]\(#([\w-]+)\)/g;
+
+export const stripFollowUps = (text: string): string =>
+  text.replace(FOLLOW_UPS_BLOCK, '').replace(PARTIAL_FOLLOW_UPS_BLOCK, '').trimEnd();
+
+export const formatFollowUps = (questions: string[]): string =>
+  questions.length ? `\n\n\`\`\`followups\n${JSON.stringify(questions)}\n\`\`\`` : '';
+
+const isNew = (asked: string[]) => {
+  const seen = new Set(asked.map(q => q.trim().toLowerCase()));
+  return (q: string) => {
+    const key = q.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+};
+
+/** The reply's own suggestions, else ones for the sections it cites; never a question already asked. */
+export const followUpsFor = (reply: string, asked: string[]): string[] => {
+  const suggested = [...reply.matchAll(FOLLOW_UPS_BLOCK)].flatMap(([, payload]) => {
+    try {
+      const parsed: unknown = JSON.parse(payload);
+      return Array.isArray(parsed) ? parsed.filter((q): q is string => typeof q === 'string') : [];
+    } catch {
+      return [];
+    }
+  });
+  const own = suggested.map(q => q.trim()).filter(q => q && q.length <= MAX_QUESTION_LENGTH).filter(isNew(asked));
+  if (own.length) return own.slice(0, MAX_FOLLOW_UPS);
+
+  const cited = [...reply.matchAll(SECTION_LINK)].map(([, id]) => id);
+  return cited.flatMap(id => SECTION_QUESTIONS[id] ?? []).filter(isNew(asked)).slice(0, MAX_FOLLOW_UPS);
+};
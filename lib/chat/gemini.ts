@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { formatUserTurn } from './prompt';
+import type { ChatProvider, ChatRequest } from './types';
+
+export interface GeminiOptions {
+  apiKey: string;
+  model: string;
+  systemInstruction: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model, systemInstruction }: GeminiOptions): ChatProvider => {
+  const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model, systemInstruction });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    async *stream(request: ChatRequest, signal?: AbortSignal) {
+      const { history } = request;
+      // Gemini requires the history to start with a user turn.
+      const firstUser = history.findIndex(m => m.role === 'user');
+      const chat = generativeModel.startChat({
+        history: firstUser < 0 ? [] : history.slice(firstUser).map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      });
+      const images = (request.images ?? []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }));
+      const result = await chat.sendMessageStream([{ text: formatUserTurn(request, true) }, ...images], { signal });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMockProvider } from './mock';
+import { createProxyProvider } from './proxy';
+import type { ChatBackend } from './types';
+
+export type { ChatBackend, ChatMessage, ChatProvider, ChatProviderId } from './types';
+
+// Picks the browser's chat backend from build-time configuration (see
+// .env.example):
+//
+//   VITE_CHAT_PROVIDER = proxy | mock | none
+//
+// When unset: the proxy if VITE_CHAT_PROXY_URL is set, the offline mock in
+// development, otherwise no backend. Model keys live only in the proxy
+// (server/); nothing secret is ever read here.
+
+export interface ChatConfig {
+  provider?: string;
+  proxyUrl?: string;
+  dev?: boolean;
+}
+
+/** Same-origin path; `npm run dev` forwards it to a local `npm run proxy`. */
+const DEFAULT_PROXY_URL = '/api/chat';
+const BACKEND_IDS = ['proxy', 'mock', 'none'] as const;
+
+export const chatConfigFromEnv = (env: ImportMetaEnv = import.meta.env): ChatConfig => ({
+  provider: env.VITE_CHAT_PROVIDER,
+  proxyUrl: env.VITE_CHAT_PROXY_URL,
+  dev: env.DEV,
+});
+
+export const resolveChatBackend = (config: ChatConfig = chatConfigFromEnv()): ChatBackend => {
+  const requested = config.provider?.trim().toLowerCase() || undefined;
+  if (requested && !BACKEND_IDS.includes(requested as typeof BACKEND_IDS[number])) {
+    return { status: 'unavailable', reason: `Unknown chat provider "${config.provider}". Use one of ${BACKEND_IDS.join(', ')}.` };
+  }
+  const id = requested ?? (config.proxyUrl ? 'proxy' : config.dev ? 'mock' : 'none');
+
+  switch (id) {
+    case 'proxy':
+      return { status: 'ready', provider: createProxyProvider({ url: config.proxyUrl || DEFAULT_PROXY_URL, label: 'Hosted model' }) };
+    case 'mock':
+      return { status: 'ready', provider: createMockProvider() };
+    default:
+      return { status: 'unavailable', reason: 'No chat backend is configured for this deployment.' };
+  }
+};
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SiteContent } from '../../types';
+import { CONTENT, formatBillions, formatCount } from '../../data/content';
+import { SITE_SECTIONS } from '../../data/sections';
+import { STATE_CODES, US_STATES } from '../../data/states';
+import { SECTION_QUESTIONS } from '../../data/suggestions';
+import type { Passage } from '../retrieval/chunk';
+import { MAX_FOLLOW_UPS, formatFollowUps } from './followups';
+import { MAX_TOOL_CALLS, type ToolCall } from './tools';
+import type { ChatProvider, ChatRequest } from './types';
+
+// Offline provider for development and tests: answers by keyword from the
+// content module, so replies are deterministic and every figure matches the
+// page. No network, no key.
+
+interface Topic {
+  keywords: RegExp;
+  answer: (c: SiteContent) => string;
+  /** Page anchor cited after the answer; see data/sections. */
+  section?: string;
+}
+
+const TOPICS: Topic[] = [
+  {
+    keywords: /\b(fps|speed|fast|slow|latency|benchmark|compare|comparison|deeplab|msresnet|segformer|vram|memory)\b/i,
+    answer: ({ benchmarks }) =>
+      `On ${benchmarks.hardware} (${benchmarks.source}): ` +
+      benchmarks.models.map(m => `${m.name} ${m.f1.toFixed(1)}% F1 at ${m.fps.toFixed(1)} FPS${m.vramGb !== undefined ? ` (${m.vramGb}GB VRAM)` : ''}`).join('; ') + '.',
+    section: 'results',
+  },
+  {
+    keywords: /\b(accura\w*|f1|iou|score|precision|recall|results?|case stud(y|ies)|chicago|gary)\b/i,
+    answer: ({ benchmarks, caseStudies }) => {
+      const ours = benchmarks.models.find(m => m.isOurs)!;
+      const cases = caseStudies.map(c => `${c.location}: IoU ${c.iou}%, F1 ${c.f1}%`).join('; ');
+      return `${ours.name} reaches ${ours.f1.toFixed(1)}% F1 in ${benchmarks.source}. Case studies: ${cases}.`;
+    },
+    section: 'results',
+  },
+  {
+    keywords: /\b(class(es)?|rivers?|lakes?|ponds?|reservoirs?|wetlands?|creeks?|coastal|labels?)\b/i,
+    answer: ({ dataset }) =>
+      `The dataset labels ${dataset.classes.length} water classes: ${dataset.classes.map(c => c.label).join(', ')}.`,
+    section: 'dataset',
+  },
+  {
+    keywords: /\b(states?|locations?|where|coverage|map)\b/i,
+    answer: ({ dataset }) =>
+      `Imagery was sampled at ${dataset.locations} locations across ${dataset.states} U.S. states.`,
+    section: 'dataset',
+  },
+  {
+    keywords: /\b(dataset|images?|pixels?|resolution|size|data)\b/i,
+    answer: ({ dataset, paper }) =>
+      `${paper.shortTitle} has ${formatCount(dataset.images)} images with ${formatBillions(dataset.labeledPixels)} labeled pixels at ${dataset.resolutionM} m/pixel, from ${dataset.imagerySource}.`,
+    section: 'dataset',
+  },
+  {
+    keywords: /\b(limitations?|weakness\w*|fail\w*|clouds?|shadows?|ice|snow|season\w*)\b/i,
+    answer: ({ limitations }) => `Known limitations: ${limitations.map(l => `${l.title}: ${l.detail}`).join(' ')}`,
+  },
+  {
+    keywords: /\b(model|u-?net\+?|architecture|patch(es)?|parameters?|encoder|decoder)\b/i,
+    answer: ({ model }) =>
+      `${model.name} processes ${model.patchSize}×${model.patchSize} patches and uses about ${model.parameterReductionPct}% fewer parameters than a standard U-Net.`,
+    section: 'model',
+  },
+  {
+    keywords: /\b(authors?|who|team|wrote|university|niu)\b/i,
+    answer: ({ authors, paper }) =>
+      `The authors are ${authors.map(a => a.name).join(', ')} (${paper.institution}).`,
+    section: 'authors',
+  },
+  {
+    keywords: /\b(download|license|code|github|repo\w*|access)\b/i,
+    answer: ({ paper }) => `Code and data are at ${paper.repositoryUrl} (${paper.dataLicense}).`,
+  },
+];
+
+// How a question names each benchmarked model, by id. A plain "U-Net" is the
+// baseline architecture, not U-Net+.
+const MODEL_MENTIONS: Record<string, RegExp> = {
+  deeplabv3plus: /\bdeeplab(v3\+?)?(?![\w+])/i,
+  msresnet34: /\bmsresnet(-?34)?\b/i,
+  'segformer-b0': /\bsegformer(-?b0)?\b/i,
+  'unet-plus': /\bu-?net(\+|[\s-]?plus\b)/i,
+};
+
+// Page actions requested alongside the answer, in the same fenced format a
+// real model is asked to use (see lib/chat/tools).
+const ACTIONS: { keywords: RegExp; call: (message: string, c: SiteContent) => ToolCall | undefined }[] = [
+  { keywords: /\b(patch(es)?|tiling|tiles?|compression)\b/i, call: () => ({ name: 'show_architecture_step', args: { step: 'patch' } }) },
+  { keywords: /\b(depth-?wise|separable|encoder|decoder)\b/i, call: () => ({ name: 'show_architecture_step', args: { step: 'model' } }) },
+  {
+    keywords: /\b(deeplab|msresnet|segformer|u-?net)/i,
+    call: (message, { benchmarks }) => {
+      const model = benchmarks.models.find(m => MODEL_MENTIONS[m.id]?.test(message));
+      return model && { name: 'highlight_model', args: { model: model.id } };
+    },
+  },
+  {
+    keywords: /\b(chicago|gary|case stud(y|ies))\b/i,
+    call: (message, { caseStudies }) => {
+      const study = caseStudies.find(c => message.toLowerCase().includes(c.id)) ?? caseStudies[0];
+      return { name: 'open_case_study', args: { caseStudy: study.id } };
+    },
+  },
+  {
+    // "lakes in Illinois", "show Ohio on the map". State names are matched in `call`.
+    keywords: /./,
+    call: (message, { dataset }) => {
+      const state = STATE_CODES.find(code => new RegExp(`\\b${US_STATES[code].name}\\b`, 'i').test(message));
+      const waterClass = dataset.classes.find(c => new RegExp(`\\b${c.id.replace(/s$/, '')}`, 'i').test(message))?.id;
+      if (!state && !waterClass) return undefined;
+      return { name: 'focus_map', args: { ...(state && { state }), ...(waterClass && { waterClass }) } };
+    },
+  },
+];
+
+const actionBlocks = (message: string, content: SiteContent): string =>
+  ACTIONS.filter(a => a.keywords.test(message))
+    .map(a => a.call(message, content))
+    .filter((call): call is ToolCall => call !== undefined)
+    .slice(0, MAX_TOOL_CALLS)
+    .map(call => `\n\n\`\`\`tool\n${JSON.stringify(call)}\n\`\`\``)
+    .join('');
+
+const NOT_COVERED = (c: SiteContent) =>
+  `(Offline mock) The paper doesn't cover that. I can answer questions about the ${c.paper.shortTitle} dataset, the ${c.model.name} model, benchmarks, authors and limitations.`;
+
+const answer = (topic: Topic | undefined, passages: Passage[], content: SiteContent): string => {
+  if (!topic) {
+    if (passages.length === 0) return NOT_COVERED(content);
+    const [best] = passages;
+    return `From "${best.section}": ${best.text.split(/(?<=\.)\s/)[0]}`;
+  }
+  const section = SITE_SECTIONS.find(s => s.id === topic.section);
+  return section ? `${topic.answer(content)} See [${section.label}](#${section.id}).` : topic.answer(content);
+};
+
+/**
+ * Picks the first topic whose keywords match, else quotes the best retrieved
+ * passage, else says the paper doesn't cover it; then appends any page
+ * actions the question calls for and follow-ups from the topic's section.
+ * Exported for tests and the eval harness.
+ */
+export const mockReply = (message: string, passages: Passage[] = [], content: SiteContent = CONTENT): string => {
+  const topic = TOPICS.find(t => t.keywords.test(message));
+  const followUps = (topic?.section ? SECTION_QUESTIONS[topic.section] : [])
+    .filter(q => q.toLowerCase() !== message.trim().toLowerCase())
+    .slice(0, MAX_FOLLOW_UPS);
+  return answer(topic, passages, content) + actionBlocks(message, content) + formatFollowUps(followUps);
+};
+
+/** What the mock says about attachments, since it can't see them. */
+export const mockImageNote = (count: number, { model, dataset }: SiteContent = CONTENT): string =>
+  `(Offline mock) I can't look at the ${count === 1 ? 'attached image' : `${count} attached images`} offline, so I can't judge this scene. ` +
+  `${model.name} is trained on ${dataset.imagerySource} at ${dataset.resolutionM} m/pixel; scenes that differ a lot from that (other sensors, resolutions, heavy cloud or shadow) may segment less reliably.\n\n`;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Streams the canned reply word by word to exercise the streaming UI. */
+export const createMockProvider = (delayMs = 40): ChatProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+  async *stream({ message, passages, images = [] }: ChatRequest, signal?: AbortSignal) {
+    const reply = (images.length ? mockImageNote(images.length) : '') + mockReply(message, passages);
+    for (const word of reply.match(/\S+\s*/g) ?? []) {
+      await sleep(delayMs, signal);
+      yield word;
+    }
+  },
+});
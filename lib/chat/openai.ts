@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readSseData } from './sse';
+import { formatUserTurn } from './prompt';
+import type { ChatProvider, ChatRequest } from './types';
+
+// Any server speaking the OpenAI chat-completions API: our self-hosted model,
+// vLLM, llama.cpp, Ollama, LM Studio...
+
+export interface OpenAICompatibleOptions {
+  /** e.g. "http://localhost:8000/v1" */
+  baseUrl: string;
+  model: string;
+  systemInstruction: string;
+  apiKey?: string;
+  /** The model accepts `image_url` content parts; otherwise attachments are described, not sent. */
+  vision?: boolean;
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  error?: { message?: string };
+}
+
+const userContent = (request: ChatRequest, vision: boolean) => {
+  const text = formatUserTurn(request, vision);
+  if (!vision || !request.images?.length) return text;
+  return [
+    { type: 'text', text },
+    ...request.images.map(({ mimeType, data }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } })),
+  ];
+};
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, systemInstruction, apiKey, vision = false }: OpenAICompatibleOptions): ChatProvider => ({
+  id: 'openai',
+  label: model,
+  async *stream(request: ChatRequest, signal?: AbortSignal) {
+    const messages = [
+      { role: 'system', content: systemInstruction },
+      ...request.history.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+      { role: 'user', content: userContent(request, vision) },
+    ];
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages, stream: true }),
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const body = (await res.json().catch(() => ({}))) as CompletionChunk;
+      throw new Error(body.error?.message ?? `Chat endpoint returned ${res.status}`);
+    }
+    let finished = false;
+    for await (const data of readSseData(res.body)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data) as CompletionChunk;
+      if (chunk.error) throw new Error(chunk.error.message ?? 'Chat endpoint reported an error');
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) yield choice.delta.content;
+      if (choice?.finish_reason) finished = true;
+    }
+    // A complete stream ends with a finish_reason and/or [DONE]; anything else is a dropped connection.
+    if (!finished) throw new Error('Connection closed before the reply finished');
+  },
+});
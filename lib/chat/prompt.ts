@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ChatRequest } from './types';
+
+// The user turn actually sent to a model: retrieved paper excerpts followed by
+// the question. Only the question is kept in the thread, so excerpts are never
+// repeated in later turns' history. `imagesVisible` says whether attached
+// images reach the model alongside this text; if not, it is told they exist.
+
+export const formatUserTurn = ({ message, passages, images = [] }: ChatRequest, imagesVisible = false): string => {
+  const excerpts = passages.length
+    ? passages.map((p, i) => `[${i + 1}] ${p.section}\n${p.text}`).join('\n\n')
+    : '(none: the paper summary has no passage matching this question)';
+  const attachments = images.length === 0 ? ''
+    : imagesVisible ? `\n\nATTACHMENTS:\n${images.length} image(s) attached below.`
+    : `\n\nATTACHMENTS:\nThe user attached ${images.length} image(s) that you cannot see. Say so, and answer from the text alone.`;
+  return `PAPER EXCERPTS:\n${excerpts}${attachments}\n\nQUESTION:\n${message}`;
+};
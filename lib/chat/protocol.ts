@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { array, object, oneOf, optional, string } from '../../data/schema';
+import { CHAT_IMAGE_LIMITS, CHAT_IMAGE_TYPES, ChatImage, ChatMessage } from './types';
+
+// Wire format between the browser and the chat proxy (server/). The browser
+// sends only the conversation; the proxy retrieves paper passages and builds
+// the prompt itself, so clients can't smuggle instructions in as "excerpts".
+//
+//   POST /api/chat  {"history": [...], "message": "..."}
+//
+// answered with Server-Sent Events, one JSON ProxyEvent per `data:` line.
+
+export interface ProxyRequest {
+  history: ChatMessage[];
+  message: string;
+  images?: ChatImage[];
+}
+
+export type ProxyEvent = { delta: string } | { done: true } | { error: string };
+
+/**
+ * Requests larger than `bodyBytes` or with a longer `message` are rejected
+ * before reaching the model. History beyond the `history*` limits is trimmed
+ * (see trimHistory), not rejected: a saved thread only ever grows.
+ */
+export const PROXY_LIMITS = {
+  bodyBytes: 64 * 1024 + CHAT_IMAGE_LIMITS.count * CHAT_IMAGE_LIMITS.base64Chars,
+  messageChars: 2000,
+  historyMessages: 20,
+  historyMessageChars: 8000,
+  // Leaves room in `bodyBytes` for the message and JSON escaping, even for multi-byte text.
+  historyChars: 16_000,
+};
+
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/**
+ * The most recent turns within PROXY_LIMITS: the oldest are dropped first and
+ * long ones are cut short. The result starts with a user turn, as upstream
+ * chat APIs expect.
+ */
+export const trimHistory = (history: ChatMessage[]): ChatMessage[] => {
+  const kept: ChatMessage[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0 && kept.length < PROXY_LIMITS.historyMessages; i--) {
+    const text = clip(history[i].text, PROXY_LIMITS.historyMessageChars);
+    if (chars + text.length > PROXY_LIMITS.historyChars) break;
+    chars += text.length;
+    kept.unshift({ role: history[i].role, text });
+  }
+  while (kept[0]?.role === 'model') kept.shift();
+  return kept;
+};
+
+// History is only bounded by `bodyBytes` here; the proxy trims it after parsing.
+export const parseProxyRequest = object({
+  history: array(object({
+    role: oneOf(['user', 'model'] as const),
+    text: string(),
+  })),
+  message: string({ minLength: 1, maxLength: PROXY_LIMITS.messageChars }),
+  images: optional(array(object({
+    mimeType: oneOf(CHAT_IMAGE_TYPES),
+    data: string({ minLength: 1, maxLength: CHAT_IMAGE_LIMITS.base64Chars }),
+  }), { maxLength: CHAT_IMAGE_LIMITS.count })),
+});
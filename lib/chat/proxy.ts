@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readSseData } from './sse';
+import type { ProxyEvent, ProxyRequest } from './protocol';
+import { ChatProvider, ChatRequest, ChatServiceError } from './types';
+
+// The browser side of the chat proxy. The model, its key and the paper
+// retrieval all live on the server; see server/ and lib/chat/protocol.
+
+export interface ProxyOptions {
+  /** e.g. "/api/chat" or "https://chat.example.org/api/chat" */
+  url: string;
+  label: string;
+}
+
+export const createProxyProvider = ({ url, label }: ProxyOptions): ChatProvider => ({
+  id: 'proxy',
+  label,
+  async *stream({ history, message, images }: ChatRequest, signal?: AbortSignal) {
+    const body: ProxyRequest = { history, message, images };
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const error = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new ChatServiceError(error.error ?? `The assistant service returned ${res.status}.`, res.status);
+    }
+    for await (const data of readSseData(res.body)) {
+      const event = JSON.parse(data) as ProxyEvent;
+      if ('error' in event) throw new ChatServiceError(event.error);
+      if ('done' in event) return;
+      yield event.delta;
+    }
+    throw new Error('Connection closed before the reply finished');
+  },
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT } from '../../data/content';
+import { SchemaError, array, boolean, number, object, oneOf, optional, string } from '../../data/schema';
+import { trimHistory } from './protocol';
+import type { ToolOutcome } from './tools';
+import type { ChatImage, ChatMessage } from './types';
+
+// Chat threads as kept in localStorage, plus Markdown / JSON export. Threads
+// hold only the conversation itself; the greeting is UI chrome and isn't stored.
+
+/**
+ * "stopped": aborted by the user. "interrupted": the stream failed part-way;
+ * whatever text arrived is kept and the reply can be regenerated.
+ */
+export type ReplyState = 'streaming' | 'done' | 'stopped' | 'interrupted';
+
+export interface ThreadMessage extends ChatMessage {
+  state?: ReplyState;
+  /** Paper sections retrieved for the question this message answers. */
+  sources?: string[];
+  /** Page actions the reply requested, accepted or blocked. */
+  actions?: ToolOutcome[];
+  /** Questions offered as chips after this reply. */
+  followUps?: string[];
+  /** Images sent with a question. Kept for Regenerate during the session; never saved (too large). */
+  images?: ChatImage[];
+  /** Names and thumbnails of those images, which are saved. */
+  attachments?: { name: string; thumbnail: string }[];
+  /** Why the reply failed, when the service said (e.g. a rate limit). */
+  error?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  updatedAt: number;
+  messages: ThreadMessage[];
+}
+
+export const THREADS_STORAGE_KEY = 'uss-water.chat-threads.v1';
+const REPLY_STATES: readonly ReplyState[] = ['streaming', 'done', 'stopped', 'interrupted'];
+const TITLE_LENGTH = 48;
+
+const threadsSchema = array(object({
+  id: string({ minLength: 1 }),
+  title: string(),
+  createdAt: number({ min: 0 }),
+  updatedAt: number({ min: 0 }),
+  messages: array(object({
+    role: oneOf(['user', 'model'] as const),
+    text: string(),
+    state: optional(oneOf(REPLY_STATES)),
+    sources: optional(array(string())),
+    actions: optional(array(object({ summary: string(), ok: boolean() }))),
+    followUps: optional(array(string())),
+    attachments: optional(array(object({ name: string(), thumbnail: string() }))),
+    error: optional(string()),
+  })),
+}));
+
+export const createThread = (now = Date.now()): ChatThread => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  title: '',
+  createdAt: now,
+  updatedAt: now,
+  messages: [],
+});
+
+/** The user-given title, or the first question, shortened. */
+export const threadTitle = (thread: ChatThread): string => {
+  if (thread.title.trim()) return thread.title.trim();
+  const first = thread.messages.find(m => m.role === 'user')?.text.replace(/\s+/g, ' ').trim();
+  if (!first) return 'New chat';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+};
+
+// Replies that produced no text (e.g. a failed request) aren't sent back as
+// history, and a long thread sends only its most recent turns.
+export const toHistory = (messages: ThreadMessage[]): ChatMessage[] =>
+  trimHistory(messages.filter(m => m.text && m.state !== 'streaming').map(({ role, text }) => ({ role, text })));
+
+/** Reads saved threads, dropping the store if it is unreadable rather than failing the chat. */
+export const loadThreads = (storage: Storage = localStorage): ChatThread[] => {
+  try {
+    const raw = storage.getItem(THREADS_STORAGE_KEY);
+    if (!raw) return [];
+    return threadsSchema(JSON.parse(raw), 'threads').map(t => ({
+      ...t,
+      // A reply still streaming when the tab closed never finished.
+      messages: t.messages.map(m => (m.state === 'streaming' ? { ...m, state: 'interrupted' as const } : m)),
+    }));
+  } catch (error) {
+    console.warn("Discarding unreadable chat history", error instanceof SchemaError ? error.message : error);
+    return [];
+  }
+};
+
+export const saveThreads = (threads: ChatThread[], storage: Storage = localStorage) => {
+  try {
+    const stored = threads.map(t => ({ ...t, messages: t.messages.map(({ images, ...m }) => m) }));
+    storage.setItem(THREADS_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private mode): keep working in memory.
+    console.warn("Could not save chat history", error);
+  }
+};
+
+const exportName = (thread: ChatThread) =>
+  `uss-water-chat-${new Date(thread.createdAt).toISOString().slice(0, 10)}-${
+    threadTitle(thread).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 32) || 'thread'
+  }`;
+
+const STATE_NOTES: Partial<Record<ReplyState, string>> = {
+  stopped: '_(stopped; reply incomplete)_',
+  interrupted: '_(connection lost; reply incomplete)_',
+};
+
+const annotatedMessages = (messages: ThreadMessage[]) =>
+  messages
+    .filter(m => m.text)
+    .map(m => {
+      const notes = [
+        m.state && STATE_NOTES[m.state],
+        m.sources?.length ? `_Paper sections: ${m.sources.join('; ')}_` : undefined,
+        m.actions?.length ? `_Page actions: ${m.actions.map(a => a.summary).join('; ')}_` : undefined,
+        m.attachments?.length ? `_Attached: ${m.attachments.map(a => a.name).join(', ')}_` : undefined,
+      ].filter(Boolean);
+      return { role: m.role, text: [m.text, ...notes].join('\n\n') };
+    });
+
+/**
+ * `siteUrl` turns section citations like `[Results](#results)` into absolute
+ * links, so they still work once the file is pasted into notes.
+ */
+export const threadToMarkdown = (thread: ChatThread, providerLabel?: string, siteUrl?: string): { filename: string; content: string } => {
+  const lines = [
+    `# ${threadTitle(thread)}`,
+    '',
+    `Conversation with the ${CONTENT.paper.shortTitle} assistant${providerLabel ? ` (${providerLabel})` : ''}, ${new Date(thread.createdAt).toLocaleString('en-US')}.`,
+    `Source paper: ${CONTENT.paper.title}, ${CONTENT.paper.journal} ${CONTENT.paper.year}.`,
+    '',
+  ];
+  for (const m of annotatedMessages(thread.messages)) {
+    const text = siteUrl ? m.text.replace(/\]\(#/g, `](${siteUrl}#`) : m.text;
+    lines.push(m.role === 'user' ? '## Question' : '## Answer', '', text, '');
+  }
+  return { filename: `${exportName(thread)}.md`, content: lines.join('\n') };
+};
+
+export const threadToJson = (thread: ChatThread, providerLabel?: string): { filename: string; content: string } => ({
+  filename: `${exportName(thread)}.json`,
+  content: JSON.stringify({
+    title: threadTitle(thread),
+    provider: providerLabel ?? null,
+    paper: { title: CONTENT.paper.title, journal: CONTENT.paper.journal, year: CONTENT.paper.year },
+    createdAt: new Date(thread.createdAt).toISOString(),
+    updatedAt: new Date(thread.updatedAt).toISOString(),
+    messages: thread.messages.filter(m => m.text).map(({ role, text, state, sources, actions, attachments }) => ({
+      role, text, complete: !state || state === 'done', sources, actions, attachments: attachments?.map(a => a.name),
+    })),
+  }, null, 2),
+});
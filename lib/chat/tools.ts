@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT, WATER_CLASS_IDS } from '../../data/content';
+import { ARCHITECTURE_STEPS, SITE_SECTIONS } from '../../data/sections';
+import { STATE_CODES, US_STATES } from '../../data/states';
+
+// Page actions the assistant may request. The model asks for one by ending its
+// reply with a fenced block
+//
+//   ```tool
+//   {"name": "show_architecture_step", "args": {"step": "patch"}}
+//   ```
+//
+// A plain-text protocol works with every provider, including local models
+// without native function calling. Nothing runs unless the name is declared
+// here and every argument is one of the listed values.
+
+interface ToolParam {
+  description: string;
+  values: readonly string[];
+  optional?: boolean;
+}
+
+interface ToolDefinition {
+  description: string;
+  params: Record<string, ToolParam>;
+  /** At least one of these must be given (for tools whose params are all optional). */
+  anyOf?: string[];
+}
+
+export const TOOLS = {
+  scroll_to_section: {
+    description: 'Scroll the page to a section.',
+    params: { section: { description: 'Section id', values: SITE_SECTIONS.map(s => s.id) } },
+  },
+  highlight_model: {
+    description: 'Highlight a model in the benchmark chart and table.',
+    params: { model: { description: 'Model id', values: CONTENT.benchmarks.models.map(m => m.id) } },
+  },
+  focus_map: {
+    description: 'Filter the dataset map to a U.S. state and/or a water class.',
+    params: {
+      state: { description: 'USPS state code, e.g. IL', values: STATE_CODES, optional: true },
+      waterClass: { description: 'Water class id', values: WATER_CLASS_IDS, optional: true },
+    },
+    anyOf: ['state', 'waterClass'],
+  },
+  open_case_study: {
+    description: 'Open the imagery / ground truth / prediction comparison for a case study.',
+    params: { caseStudy: { description: 'Case study id', values: CONTENT.caseStudies.map(c => c.id) } },
+  },
+  show_architecture_step: {
+    description: 'Highlight a stage of the model pipeline diagram and show its details.',
+    params: { step: { description: 'Pipeline stage id', values: ARCHITECTURE_STEPS.map(s => s.id) } },
+  },
+} satisfies Record<string, ToolDefinition>;
+
+export type ToolName = keyof typeof TOOLS;
+
+type Params<N extends ToolName> = (typeof TOOLS)[N]['params'];
+type ParamValue<P> = P extends { values: readonly (infer V)[] } ? V : never;
+type OptionalKeys<P> = { [K in keyof P]: P[K] extends { optional: true } ? K : never }[keyof P];
+
+/** A tool's arguments, each narrowed to the values its param allows. */
+export type ToolArgs<N extends ToolName> =
+  { [K in Exclude<keyof Params<N>, OptionalKeys<Params<N>>>]: ParamValue<Params<N>[K]> } &
+  { [K in OptionalKeys<Params<N>>]?: ParamValue<Params<N>[K]> };
+
+export type ToolCall = { [N in ToolName]: { name: N; args: ToolArgs<N> } }[ToolName];
+
+/** What happened to a requested action, as shown under the reply. */
+export interface ToolOutcome {
+  summary: string;
+  ok: boolean;
+}
+
+export type ToolHandlers = { [N in ToolName]: (args: ToolArgs<N>) => void };
+
+/** More than this per reply is treated as a runaway model; the rest are ignored. */
+export const MAX_TOOL_CALLS = 3;
+
+const TOOL_BLOCK = /```tool[^\n]*\n([\s\S]*?)```/g;
+// A block still being streamed; hidden until it completes.
+const PARTIAL_TOOL_BLOCK = /```tool[\s\S]*$/;
+
+/** The reply text with tool blocks removed, safe to render mid-stream. */
+export const stripToolBlocks = (text: string): string =>
+  text.replace(TOOL_BLOCK, '').replace(PARTIAL_TOOL_BLOCK, '').trimEnd();
+
+/** The raw JSON payloads of every complete tool block. */
+export const extractToolBlocks = (text: string): string[] => [...text.matchAll(TOOL_BLOCK)].map(m => m[1].trim());
+
+const isToolName = (name: unknown): name is ToolName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(TOOLS, name);
+
+/** Checks a payload against the whitelist. Never throws. */
+export const validateToolCall = (payload: string): { ok: true; call: ToolCall } | { ok: false; reason: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return { ok: false, reason: 'Malformed action' };
+  }
+  const { name, args = {} } = (parsed ?? {}) as { name?: unknown; args?: unknown };
+  if (!isToolName(name)) return { ok: false, reason: `"${String(name)}" is not an allowed action` };
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) return { ok: false, reason: `Bad arguments for ${name}` };
+
+  const tool: ToolDefinition = TOOLS[name];
+  const input = args as Record<string, unknown>;
+  const unknown = Object.keys(input).find(k => !(k in tool.params));
+  if (unknown) return { ok: false, reason: `Unknown argument "${unknown}" for ${name}` };
+
+  const clean: Record<string, string> = {};
+  for (const [key, param] of Object.entries(tool.params)) {
+    const value = input[key];
+    if (value === undefined) {
+      if (!param.optional) return { ok: false, reason: `Missing "${key}" for ${name}` };
+      continue;
+    }
+    if (typeof value !== 'string' || !param.values.includes(value)) {
+      return { ok: false, reason: `"${String(value)}" is not a valid ${key}` };
+    }
+    clean[key] = value;
+  }
+  if (tool.anyOf && !tool.anyOf.some(k => k in clean)) return { ok: false, reason: `${name} needs one of ${tool.anyOf.join(', ')}` };
+  // Every argument was just checked against its param's values.
+  return { ok: true, call: { name, args: clean } as ToolCall };
+};
+
+/** Human-readable description shown to the user for an accepted call. */
+export const describeToolCall = ({ name, args }: ToolCall): string => {
+  switch (name) {
+    case 'scroll_to_section':
+      return `Scrolled to ${SITE_SECTIONS.find(s => s.id === args.section)?.label}`;
+    case 'highlight_model':
+      return `Highlighted ${CONTENT.benchmarks.models.find(m => m.id === args.model)?.name} in the benchmarks`;
+    case 'focus_map': {
+      const waterClass = args.waterClass && CONTENT.dataset.classes.find(c => c.id === args.waterClass)?.label.toLowerCase();
+      const state = args.state && US_STATES[args.state].name;
+      return `Showed ${waterClass && state ? `${waterClass} in ${state}` : waterClass || state} on the dataset map`;
+    }
+    case 'open_case_study':
+      return `Opened ${CONTENT.caseStudies.find(c => c.id === args.caseStudy)?.title}`;
+    case 'show_architecture_step':
+      return `Showed "${ARCHITECTURE_STEPS.find(s => s.id === args.step)?.label}" in the pipeline`;
+  }
+};
+
+const dispatch = <N extends ToolName>(handlers: ToolHandlers, call: { name: N; args: ToolArgs<N> }) =>
+  handlers[call.name](call.args);
+
+/**
+ * Validates and runs every tool block in a finished reply. Handlers are only
+ * ever called with whitelisted names and values.
+ */
+export const runToolCalls = (text: string, handlers?: ToolHandlers): ToolOutcome[] =>
+  extractToolBlocks(text).slice(0, MAX_TOOL_CALLS).map(payload => {
+    const result = validateToolCall(payload);
+    if (!result.ok) return { summary: `Blocked: ${result.reason}`, ok: false };
+    if (!handlers) return { summary: `Not available here: ${describeToolCall(result.call)}`, ok: false };
+    try {
+      dispatch(handlers, result.call);
+      return { summary: describeToolCall(result.call), ok: true };
+    } catch (error) {
+      console.error("Tool call failed", error);
+      return { summary: `Failed: ${describeToolCall(result.call)}`, ok: false };
+    }
+  });
+
+/** Tool documentation for the system prompt. */
+export const describeTools = (): string =>
+  Object.entries(TOOLS as Record<ToolName, ToolDefinition>).map(([name, tool]) => {
+    const params = Object.entries(tool.params).map(([key, p]) => {
+      // Long value lists (states) are described rather than enumerated.
+      const values = p.values.length > 12 ? p.description : `one of ${p.values.join(', ')}`;
+      return `${key}${p.optional ? ' (optional)' : ''}: ${values}`;
+    });
+    return `  - ${name}: ${tool.description} Args: ${params.join('; ')}.`;
+  }).join('\n');
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Provider-neutral chat interface. Providers are stateless: the full history
+// is passed on every call, so the UI owns the conversation and any backend can
+// be swapped in without migrating session state.
+
+import type { Passage } from '../retrieval/chunk';
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export type ChatImageType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+/** An image attached to a question, base64-encoded without the `data:` prefix. */
+export interface ChatImage {
+  mimeType: ChatImageType;
+  data: string;
+}
+
+export const CHAT_IMAGE_TYPES: readonly ChatImageType[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Per question. The browser downscales attachments to fit before sending. */
+export const CHAT_IMAGE_LIMITS = { count: 3, maxSide: 1024, base64Chars: 400_000 };
+
+/**
+ * One turn to answer: the new question plus paper passages retrieved for it.
+ * Images belong to `message` only; earlier turns are sent as text.
+ */
+export interface ChatRequest {
+  history: ChatMessage[];
+  message: string;
+  passages: Passage[];
+  images?: ChatImage[];
+}
+
+export interface ChatProvider {
+  id: ChatProviderId;
+  /** Shown in the chat header, e.g. "Gemini 2.5 Flash". */
+  label: string;
+  /**
+   * Streams the assistant's reply to `request.message`, given the earlier
+   * turns, as text deltas. Aborting `signal` ends the stream with an
+   * AbortError; any other failure mid-stream is thrown after the deltas
+   * already yielded.
+   */
+  stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export type ChatProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+/** A failure whose message is meant for the user, e.g. a rate limit. */
+export class ChatServiceError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ChatServiceError';
+  }
+}
+
+/** The configured provider, or why none is available. */
+export type ChatBackend =
+  | { status: 'ready'; provider: ChatProvider }
+  | { status: 'unavailable'; reason: string };
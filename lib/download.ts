@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Saves text content as a file via a temporary object URL. */
+export const downloadText = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking in the same task cancels the download in Firefox and Safari.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
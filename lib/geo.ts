@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geoAlbersUsa, geoPath } from 'd3-geo';
+import { feature, mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import statesTopology from 'us-atlas/states-10m.json';
+import type { SampleLocation } from '../types';
+
+// Map geometry for DatasetMap: an Albers USA projection (with Alaska and
+// Hawaii insets) fitted to a fixed viewBox, the bundled state outlines and a
+// screen-space clustering pass for dense areas.
+
+export const MAP_WIDTH = 975;
+export const MAP_HEIGHT = 610;
+
+const topology = statesTopology as unknown as Topology<{ states: GeometryCollection<{ name: string }> }>;
+const states = feature(topology, topology.objects.states);
+
+const projection = geoAlbersUsa().fitSize([MAP_WIDTH, MAP_HEIGHT], states);
+const pathGenerator = geoPath(projection);
+
+/** SVG path data for each state, keyed by FIPS id. */
+export const STATE_PATHS: { fips: string; d: string }[] = states.features.map(f => ({
+  fips: String(f.id),
+  d: pathGenerator(f) ?? '',
+}));
+
+/** Interior borders only, so shared edges aren't stroked twice. */
+export const STATE_BORDERS = pathGenerator(mesh(topology, topology.objects.states, (a, b) => a !== b)) ?? '';
+
+/** Projects lon/lat into viewBox coordinates; null when outside the projection's extent. */
+export const project = (lon: number, lat: number): [number, number] | null => projection([lon, lat]);
+
+export interface ProjectedLocation {
+  location: SampleLocation;
+  x: number;
+  y: number;
+}
+
+export interface LocationCluster {
+  id: string;
+  x: number;
+  y: number;
+  members: SampleLocation[];
+  images: number;
+}
+
+export const projectLocations = (locations: SampleLocation[]): ProjectedLocation[] =>
+  locations.flatMap(location => {
+    const p = project(location.lon, location.lat);
+    return p ? [{ location, x: p[0], y: p[1] }] : [];
+  });
+
+/**
+ * Greedy clustering in viewBox units. `radius` is the on-screen merge distance
+ * divided by the current render scale, so clusters split apart as the map grows.
+ * Larger locations seed clusters first so centroids sit near the heavy samples.
+ */
+export const clusterLocations = (points: ProjectedLocation[], radius: number): LocationCluster[] => {
+  const sorted = [...points].sort((a, b) => b.location.images - a.location.images);
+  const clusters: (LocationCluster & { sx: number; sy: number })[] = [];
+
+  for (const p of sorted) {
+    const hit = clusters.find(c => Math.hypot(c.x - p.x, c.y - p.y) <= radius);
+    if (hit) {
+      hit.members.push(p.location);
+      hit.images += p.location.images;
+      hit.sx += p.x * p.location.images;
+      hit.sy += p.y * p.location.images;
+      hit.x = hit.sx / hit.images;
+      hit.y = hit.sy / hit.images;
+    } else {
+      clusters.push({
+        id: p.location.id,
+        x: p.x,
+        y: p.y,
+        members: [p.location],
+        images: p.location.images,
+        sx: p.x * p.location.images,
+        sy: p.y * p.location.images,
+      });
+    }
+  }
+
+  return clusters.map(({ sx, sy, ...c }) => c);
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geoGraticule10 } from 'd3-geo';
+import { mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import statesTopology from 'us-atlas/states-10m.json';
+import type { SampleLocation } from '../types';
+
+// Geometry for the globe view (SatelliteScene): lat/lon on a unit sphere,
+// state borders and a graticule as line-segment buffers, and the satellite's
+// orbit. Plain arrays only, so nothing here depends on three.js.
+
+export type Vec3 = [number, number, number];
+
+const RAD = Math.PI / 180;
+
+/** Lat/lon in degrees to a point on a sphere. +Y is north; lon 0 faces +X. */
+export const latLonToVector = (lat: number, lon: number, radius = 1): Vec3 => {
+  const phi = (90 - lat) * RAD;
+  const theta = (lon + 180) * RAD;
+  return [
+    -radius * Math.sin(phi) * Math.cos(theta),
+    radius * Math.cos(phi),
+    radius * Math.sin(phi) * Math.sin(theta),
+  ];
+};
+
+/** Inverse of latLonToVector; the vector need not be normalized. */
+export const vectorToLatLon = ([x, y, z]: Vec3): { lat: number; lon: number } => {
+  const r = Math.hypot(x, y, z) || 1;
+  const lat = 90 - Math.acos(y / r) / RAD;
+  const lon = Math.atan2(z, -x) / RAD - 180;
+  return { lat, lon: lon < -180 ? lon + 360 : lon };
+};
+
+/** Pairs of consecutive points as a flat [x, y, z, x, y, z, …] buffer for LineSegments. */
+const lineSegments = (lines: number[][][], radius: number): Float32Array => {
+  const out: number[] = [];
+  for (const line of lines) {
+    for (let i = 1; i < line.length; i++) {
+      out.push(...latLonToVector(line[i - 1][1], line[i - 1][0], radius), ...latLonToVector(line[i][1], line[i][0], radius));
+    }
+  }
+  return new Float32Array(out);
+};
+
+const topology = statesTopology as unknown as Topology<{ states: GeometryCollection<{ name: string }> }>;
+
+/** Every state border once (shared edges aren't duplicated). */
+export const stateBorderSegments = (radius = 1): Float32Array =>
+  lineSegments(mesh(topology, topology.objects.states).coordinates, radius);
+
+/** Meridians and parallels every 10°. */
+export const graticuleSegments = (radius = 1): Float32Array =>
+  lineSegments(geoGraticule10().coordinates, radius);
+
+/** Image-weighted centre of a set of locations, for pointing the camera at a filter. */
+export const locationsCentroid = (locations: SampleLocation[]): { lat: number; lon: number } | null => {
+  if (locations.length === 0) return null;
+  const sum: Vec3 = [0, 0, 0];
+  for (const l of locations) {
+    const v = latLonToVector(l.lat, l.lon);
+    sum[0] += v[0] * l.images;
+    sum[1] += v[1] * l.images;
+    sum[2] += v[2] * l.images;
+  }
+  return vectorToLatLon(sum);
+};
+
+export interface Orbit {
+  /** Degrees between the orbital plane and the equator; ~98° is sun-synchronous. */
+  inclination: number;
+  /** Seconds per revolution (scene time, not real time). */
+  period: number;
+  /** Degrees the ground track drifts west per revolution, standing in for the Earth's rotation. */
+  drift: number;
+}
+
+/** Unit vector from the globe's centre towards the satellite at time `t` (seconds). */
+export const orbitDirection = ({ inclination, period, drift }: Orbit, t: number): Vec3 => {
+  const a = (2 * Math.PI * t) / period;
+  const inc = inclination * RAD;
+  const node = -(drift * RAD * t) / period;
+  // Position in the orbital plane, tilted about X, then turned about the pole.
+  const x = Math.cos(a);
+  const y = Math.sin(a) * Math.sin(inc);
+  const z = Math.sin(a) * Math.cos(inc);
+  return [x * Math.cos(node) + z * Math.sin(node), y, -x * Math.sin(node) + z * Math.cos(node)];
+};
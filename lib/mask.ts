@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { decode } from 'fast-png';
+import type { WaterClass } from '../types';
+
+// Label-mask helpers shared by the sample viewer and the comparison/metric tools.
+// Masks are decoded with fast-png rather than through a canvas so palette PNGs
+// give us their raw class indices instead of the palette colors.
+
+export interface LabelMask {
+  width: number;
+  height: number;
+  /** One label per pixel, row-major. 0 is background. */
+  data: Uint8Array;
+}
+
+/** Decodes an 8-bit (or packed 1/2/4-bit) single-band, palette or RGB(A) PNG into a label mask (first channel for RGB). */
+export const decodeMask = (buffer: ArrayBuffer): LabelMask => {
+  const png = decode(buffer);
+  const { width, height, channels, depth } = png;
+  const data = new Uint8Array(width * height);
+
+  if (channels === 1 && depth < 8) {
+    // Sub-byte pixels are packed MSB-first and each row starts on a byte boundary.
+    const rowBytes = Math.ceil((width * depth) / 8);
+    const mask = (1 << depth) - 1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = x * depth;
+        const byte = png.data[y * rowBytes + (bit >> 3)];
+        data[y * width + x] = (byte >> (8 - depth - (bit & 7))) & mask;
+      }
+    }
+    return { width, height, data };
+  }
+  if (depth !== 8) {
+    // Label values are byte-sized; a 16-bit mask would be read as its high bytes.
+    throw new Error(`Expected an 8-bit label mask, got ${depth} bits per channel`);
+  }
+
+  for (let i = 0; i < width * height; i++) {
+    data[i] = png.data[i * channels];
+  }
+  return { width, height, data };
+};
+
+/** Overlay opacity the sample viewer opens with. */
+export const DEFAULT_MASK_OPACITY = 0.6;
+
+export const fetchMask = async (url: string, signal?: AbortSignal): Promise<LabelMask> => {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Failed to load mask (${res.status})`);
+  return decodeMask(await res.arrayBuffer());
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    img.src = url;
+  });
+
+/** Pixel count per label value. */
+export const countLabels = (mask: LabelMask): Uint32Array => {
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < mask.data.length; i++) counts[mask.data[i]]++;
+  return counts;
+};
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/** Paints each visible class in its color; everything else stays transparent. */
+export const renderClassOverlay = (
+  mask: LabelMask,
+  classes: WaterClass[],
+  visible: (c: WaterClass) => boolean,
+): ImageData => {
+  const lut = new Uint8ClampedArray(256 * 4);
+  for (const c of classes) {
+    if (!visible(c)) continue;
+    const [r, g, b] = hexToRgb(c.color);
+    lut.set([r, g, b, 255], c.maskValue * 4);
+  }
+  const image = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const o = mask.data[i] * 4;
+    image.data[i * 4] = lut[o];
+    image.data[i * 4 + 1] = lut[o + 1];
+    image.data[i * 4 + 2] = lut[o + 2];
+    image.data[i * 4 + 3] = lut[o + 3];
+  }
+  return image;
+};
+
+/** Paints every non-background pixel in one color (binary water view). */
+export const renderWaterOverlay = (mask: LabelMask, color: string): ImageData => {
+  const [r, g, b] = hexToRgb(color);
+  const image = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] === 0) continue;
+    image.data.set([r, g, b, 255], i * 4);
+  }
+  return image;
+};
+
+export const ERROR_COLORS = {
+  truePositive: '#10b981',
+  falsePositive: '#ef4444',
+  falseNegative: '#f59e0b',
+};
+
+export interface BinaryCounts {
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+}
+
+/**
+ * Colors each pixel by its binary water outcome (prediction vs ground truth);
+ * true negatives stay transparent. Returns the counts alongside the image.
+ */
+export const renderErrorOverlay = (groundTruth: LabelMask, prediction: LabelMask) => {
+  const colors = {
+    tp: hexToRgb(ERROR_COLORS.truePositive),
+    fp: hexToRgb(ERROR_COLORS.falsePositive),
+    fn: hexToRgb(ERROR_COLORS.falseNegative),
+  };
+  const counts: BinaryCounts = { truePositive: 0, falsePositive: 0, falseNegative: 0, trueNegative: 0 };
+  const image = new ImageData(groundTruth.width, groundTruth.height);
+  for (let i = 0; i < groundTruth.data.length; i++) {
+    const truth = groundTruth.data[i] !== 0;
+    const pred = prediction.data[i] !== 0;
+    let rgb: [number, number, number] | null = null;
+    if (truth && pred) { counts.truePositive++; rgb = colors.tp; }
+    else if (pred) { counts.falsePositive++; rgb = colors.fp; }
+    else if (truth) { counts.falseNegative++; rgb = colors.fn; }
+    else counts.trueNegative++;
+    if (rgb) image.data.set([rgb[0], rgb[1], rgb[2], 255], i * 4);
+  }
+  return { image, counts };
+};
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LabelMask } from './mask';
+
+// Segmentation metrics for one mask pair. The headline IoU / F1 treat every
+// water class as "water" against background (a binary mask) and are computed
+// from pixel counts pooled over the whole mask.
+//
+// These are not the paper's aggregation. From a single pooled matrix
+// IoU = F1 / (2 - F1), which the reported pairs don't satisfy (F1 92.7 would
+// give IoU 86.4, not 82.1), and the paper doesn't say how it averaged. Expect
+// scores here to differ from the figures quoted on the site.
+//
+//   precision = TP / (TP + FP)        recall = TP / (TP + FN)
+//   F1        = 2TP / (2TP + FP + FN) IoU    = TP / (TP + FP + FN)
+//   pixel accuracy = correctly labeled pixels / all pixels
+
+/** The parts of a water class needed for scoring. */
+export interface ScoredClass {
+  id: string;
+  label: string;
+  maskValue: number;
+}
+
+export interface ClassScores {
+  precision: number;
+  recall: number;
+  f1: number;
+  iou: number;
+  /** Ground-truth pixels of this class. */
+  support: number;
+}
+
+export interface MetricReport {
+  width: number;
+  height: number;
+  /** Binary water vs background. */
+  water: ClassScores & { pixelAccuracy: number };
+  /** One-vs-rest scores per water class. */
+  perClass: (ClassScores & { id: string; label: string })[];
+  /** Multi-class pixel accuracy over background + every class. */
+  pixelAccuracy: number;
+  /** Mean IoU over the water classes present in either mask. */
+  meanIoU: number;
+  /** Row labels of the confusion matrix: background, then each class. */
+  labels: string[];
+  /** confusion[truth][prediction] in pixels. */
+  confusion: number[][];
+}
+
+// 0/0 happens when a class is absent from both masks; report it as undefined
+// (NaN) rather than a perfect or zero score.
+const ratio = (num: number, den: number) => (den === 0 ? NaN : num / den);
+
+export const scoresFromCounts = (tp: number, fp: number, fn: number): ClassScores => ({
+  precision: ratio(tp, tp + fp),
+  recall: ratio(tp, tp + fn),
+  f1: ratio(2 * tp, 2 * tp + fp + fn),
+  iou: ratio(tp, tp + fp + fn),
+  support: tp + fn,
+});
+
+export const computeMetrics = (
+  truth: LabelMask,
+  prediction: LabelMask,
+  classes: ScoredClass[],
+): MetricReport => {
+  if (truth.width !== prediction.width || truth.height !== prediction.height) {
+    throw new Error(`Mask sizes differ: ground truth is ${truth.width}×${truth.height}, prediction is ${prediction.width}×${prediction.height}`);
+  }
+
+  // Matrix index 0 is background, i + 1 is classes[i].
+  const index = new Int16Array(256).fill(-1);
+  index[0] = 0;
+  classes.forEach((c, i) => { index[c.maskValue] = i + 1; });
+  const size = classes.length + 1;
+  const confusion = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < truth.data.length; i++) {
+    const t = index[truth.data[i]];
+    const p = index[prediction.data[i]];
+    if (t < 0 || p < 0) {
+      const bad = t < 0 ? truth.data[i] : prediction.data[i];
+      throw new Error(`Unknown label value ${bad} in ${t < 0 ? 'ground truth' : 'prediction'} (expected 0 or one of ${classes.map(c => c.maskValue).join(', ')})`);
+    }
+    confusion[t][p]++;
+  }
+
+  const total = truth.data.length;
+  const rowSum = (r: number) => confusion[r].reduce((a, b) => a + b, 0);
+  const colSum = (c: number) => confusion.reduce((a, row) => a + row[c], 0);
+
+  const perClass = classes.map((c, i) => {
+    const k = i + 1;
+    const tp = confusion[k][k];
+    return { id: c.id, label: c.label, ...scoresFromCounts(tp, colSum(k) - tp, rowSum(k) - tp) };
+  });
+
+  // Binary view: anything non-background is water, regardless of class agreement.
+  const tn = confusion[0][0];
+  const waterTruth = total - rowSum(0);
+  const waterPred = total - colSum(0);
+  const waterTp = total - rowSum(0) - colSum(0) + tn;
+  const water = {
+    ...scoresFromCounts(waterTp, waterPred - waterTp, waterTruth - waterTp),
+    pixelAccuracy: (waterTp + tn) / total,
+  };
+
+  const correct = confusion.reduce((sum, row, k) => sum + row[k], 0);
+  const present = perClass.filter(c => !Number.isNaN(c.iou));
+
+  return {
+    width: truth.width,
+    height: truth.height,
+    water,
+    perClass,
+    pixelAccuracy: correct / total,
+    meanIoU: present.length ? present.reduce((s, c) => s + c.iou, 0) / present.length : NaN,
+    labels: ['Background', ...classes.map(c => c.label)],
+    confusion,
+  };
+};
+
+const fmt = (v: number) => (Number.isNaN(v) ? '' : v.toFixed(6));
+
+export const reportToCsv = (report: MetricReport): string => {
+  const lines = ['scope,precision,recall,f1,iou,pixel_accuracy,support_px'];
+  const w = report.water;
+  lines.push(`water (binary),${fmt(w.precision)},${fmt(w.recall)},${fmt(w.f1)},${fmt(w.iou)},${fmt(w.pixelAccuracy)},${w.support}`);
+  for (const c of report.perClass) {
+    lines.push(`${c.id},${fmt(c.precision)},${fmt(c.recall)},${fmt(c.f1)},${fmt(c.iou)},,${c.support}`);
+  }
+  lines.push(`all classes,,,,${fmt(report.meanIoU)},${fmt(report.pixelAccuracy)},${report.width * report.height}`);
+  lines.push('');
+  lines.push(['truth \\ prediction', ...report.labels].join(','));
+  report.confusion.forEach((row, i) => lines.push([report.labels[i], ...row].join(',')));
+  return lines.join('\n') + '\n';
+};
+
+export const reportToJson = (report: MetricReport): string =>
+  // NaN isn't valid JSON; undefined scores are written as null.
+  JSON.stringify(report, (_key, value) => (typeof value === 'number' && Number.isNaN(value) ? null : value), 2);
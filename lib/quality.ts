@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Rendering tiers for the decorative 3D scenes. A tier is picked from what the
+// device reports up front, then stepped down at runtime when measured frame
+// rates stay low (see HeroScene). It is never stepped back up within a visit:
+// flip-flopping between tiers is more noticeable than a slightly plainer scene.
+
+export type QualityLevel = 'low' | 'medium' | 'high';
+
+export interface QualityPreset {
+  /** Width and height segments of the hero sphere. */
+  sphereSegments: number;
+  stars: number;
+  satellitePoints: number;
+  waterSegments: number;
+  /** Device pixel ratio range handed to the Canvas. */
+  dpr: [number, number];
+  /** Image-based lighting; costs a cube-map download and extra shading. */
+  environment: boolean;
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  high: { sphereSegments: 64, stars: 2000, satellitePoints: 200, waterSegments: 64, dpr: [1, 2], environment: true },
+  medium: { sphereSegments: 40, stars: 1000, satellitePoints: 120, waterSegments: 32, dpr: [1, 1.5], environment: true },
+  low: { sphereSegments: 24, stars: 400, satellitePoints: 60, waterSegments: 16, dpr: [1, 1], environment: false },
+};
+
+const LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export interface DeviceCapabilities {
+  /** Logical cores (navigator.hardwareConcurrency). */
+  cores?: number;
+  /** Approximate RAM in GB (navigator.deviceMemory; Chromium only). */
+  memoryGb?: number;
+  /** Touch-first devices are mostly phones and tablets. */
+  coarsePointer?: boolean;
+  /** The user asked for reduced data use. */
+  saveData?: boolean;
+}
+
+export const readDeviceCapabilities = (): DeviceCapabilities => {
+  if (typeof navigator === 'undefined') return {};
+  const nav = navigator as Navigator & { deviceMemory?: number; connection?: { saveData?: boolean } };
+  return {
+    cores: nav.hardwareConcurrency || undefined,
+    memoryGb: nav.deviceMemory,
+    coarsePointer: typeof matchMedia === 'function' && matchMedia('(pointer: coarse)').matches,
+    saveData: nav.connection?.saveData,
+  };
+};
+
+/** The starting tier. Unknown values count as capable; the frame-rate monitor catches the rest. */
+export const initialQuality = ({ cores, memoryGb, coarsePointer, saveData }: DeviceCapabilities): QualityLevel => {
+  if (saveData || (cores !== undefined && cores <= 2) || (memoryGb !== undefined && memoryGb <= 2)) return 'low';
+  if (coarsePointer || (cores !== undefined && cores <= 4) || (memoryGb !== undefined && memoryGb <= 4)) return 'medium';
+  return 'high';
+};
+
+/** One tier lower, bottoming out at 'low'. */
+export const lowerQuality = (level: QualityLevel): QualityLevel => LEVELS[Math.max(0, LEVELS.indexOf(level) - 1)];
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Okapi BM25 over a small in-memory corpus. Tokens are lower-cased words and
+// numbers ("93.6", "u-net+" -> "unet+"), with English stop words dropped and
+// plural "s" folded, which is enough for a single paper.
+
+const STOP_WORDS = new Set(
+  ('a an and are as at be by can does did do for from had has have how in is it its of on or that the their them then there these this ' +
+    'those to was were what when where which who why will with would you your our we us about into than use used using').split(' '),
+);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().replace(/-/g, '').match(/[a-z0-9]+(?:[.+][a-z0-9]+)*\+?/g) ?? [])
+    .filter(t => !STOP_WORDS.has(t))
+    .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+export interface ScoredDocument<T> {
+  doc: T;
+  score: number;
+}
+
+export interface Bm25Index<T> {
+  search(query: string, limit?: number): ScoredDocument<T>[];
+}
+
+export const createBm25Index = <T>(docs: T[], text: (doc: T) => string, k1 = 1.2, b = 0.75): Bm25Index<T> => {
+  const termFreqs = docs.map(d => {
+    const tf = new Map<string, number>();
+    for (const t of tokenize(text(d))) tf.set(t, (tf.get(t) ?? 0) + 1);
+    return tf;
+  });
+  const lengths = termFreqs.map(tf => [...tf.values()].reduce((a, c) => a + c, 0));
+  const avgLength = lengths.reduce((a, c) => a + c, 0) / Math.max(1, docs.length);
+  const docFreq = new Map<string, number>();
+  for (const tf of termFreqs) for (const t of tf.keys()) docFreq.set(t, (docFreq.get(t) ?? 0) + 1);
+  const idf = (t: string) => {
+    const n = docFreq.get(t) ?? 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    search(query, limit = 3) {
+      const terms = [...new Set(tokenize(query))];
+      return docs
+        .map((doc, i) => {
+          const tf = termFreqs[i];
+          const score = terms.reduce((sum, t) => {
+            const f = tf.get(t) ?? 0;
+            return f ? sum + idf(t) * (f * (k1 + 1)) / (f + k1 * (1 - b + b * lengths[i] / avgLength)) : sum;
+          }, 0);
+          return { doc, score };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+};
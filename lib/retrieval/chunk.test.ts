@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadPaperRetriever } from '../../server/upstream';
+import { Passage, chunkMarkdown } from './chunk';
+
+// `npm test`. No passage may repeat, or sit wholly inside, another one from the
+// same section: it would take a top-k slot and add nothing.
+
+const assertNoSubsumed = (passages: Passage[]) => {
+  passages.forEach((a, i) =>
+    passages.forEach((b, j) => {
+      if (i !== j && a.section === b.section) assert.ok(!b.text.includes(a.text), `${a.id} is contained in ${b.id}`);
+    }),
+  );
+};
+
+test('a section that fits in one window is one passage', () => {
+  assert.deepEqual(chunkMarkdown('## S\n\nA one.\n\nB two.').map(p => p.text), ['A one.\n\nB two.']);
+});
+
+test('long sections overlap by one paragraph without a trailing repeat', () => {
+  const paragraphs = ['a', 'b', 'c', 'd', 'e'].map(w => `${w} `.repeat(60).trim());
+  const passages = chunkMarkdown(`## S\n\n${paragraphs.join('\n\n')}`, 130);
+  assert.deepEqual(passages.map(p => p.text), [0, 1, 2, 3].map(i => `${paragraphs[i]}\n\n${paragraphs[i + 1]}`));
+  assertNoSubsumed(passages);
+});
+
+test('the bundled paper has no duplicate or subsumed passages', () => {
+  assertNoSubsumed(loadPaperRetriever().passages);
+});
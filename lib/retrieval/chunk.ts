@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Splits a Markdown document into retrievable passages: one per "## " section
+// or "### " subsection, with long sections cut into overlapping windows of
+// whole paragraphs so no passage is much longer than `maxWords`.
+
+export interface Passage {
+  id: string;
+  /** e.g. "4 Experiments and Results › 4.2 Comparison with baselines (Table 3)" */
+  section: string;
+  text: string;
+}
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+const wordCount = (s: string) => s.split(/\s+/).filter(Boolean).length;
+
+export const chunkMarkdown = (markdown: string, maxWords = 160): Passage[] => {
+  const body = markdown.replace(/<!--[\s\S]*?-->/g, '');
+  const sections: { key: string; title: string; paragraphs: string[] }[] = [];
+  let parent = '';
+  let current: { key: string; title: string; paragraphs: string[] } | null = null;
+
+  for (const block of body.split(/\n\s*\n/)) {
+    const text = block.trim();
+    if (!text) continue;
+    const heading = /^(#{1,3})\s+(.*)$/.exec(text.split('\n')[0]);
+    if (heading) {
+      const [, hashes, title] = heading;
+      if (hashes.length === 1) continue; // Document title.
+      if (hashes.length === 2) parent = title;
+      current = { key: slug(title), title: hashes.length === 3 ? `${parent} › ${title}` : title, paragraphs: [] };
+      sections.push(current);
+      const rest = text.split('\n').slice(1).join('\n').trim();
+      if (rest) current.paragraphs.push(rest);
+    } else if (current) {
+      current.paragraphs.push(text);
+    }
+  }
+
+  const passages: Passage[] = [];
+  for (const { key, title, paragraphs } of sections) {
+    if (paragraphs.length === 0) continue;
+    let start = 0;
+    let part = 0;
+    while (start < paragraphs.length) {
+      let end = start + 1;
+      let words = wordCount(paragraphs[start]);
+      while (end < paragraphs.length && words + wordCount(paragraphs[end]) <= maxWords) words += wordCount(paragraphs[end++]);
+      passages.push({ id: `${key}-${part++}`, section: title, text: paragraphs.slice(start, end).join('\n\n') });
+      // Overlap by one paragraph so an answer spanning a boundary is still
+      // found — unless this window already reached the end of the section.
+      start = end < paragraphs.length && end - start > 1 ? end - 1 : end;
+    }
+  }
+  return passages;
+};
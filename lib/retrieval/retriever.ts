@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Passage, chunkMarkdown } from './chunk';
+import { createBm25Index } from './bm25';
+
+// Chunks a Markdown document and answers questions with its best passages.
+// Shared by the browser (data/paper) and the chat proxy, which reads the same
+// file from disk, so both pick the same excerpts for a question.
+
+export interface PassageRetriever {
+  passages: Passage[];
+  retrieve(question: string, limit?: number): Passage[];
+}
+
+// Passages scoring below this are treated as unrelated, so off-paper questions
+// reach the model with no excerpts and it says so.
+const MIN_SCORE = 1.5;
+
+export const createPassageRetriever = (markdown: string): PassageRetriever => {
+  const passages = chunkMarkdown(markdown);
+  const index = createBm25Index(passages, p => `${p.section}\n${p.text}`);
+  return {
+    passages,
+    retrieve: (question, limit = 3) => index.search(question, limit).filter(r => r.score >= MIN_SCORE).map(r => r.doc),
+  };
+};
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Clearance for the fixed navigation bar. */
+export const HEADER_OFFSET = 100;
+
+/** Scrolls to the element with `id`, leaving room for the nav bar. Returns false if it doesn't exist. */
+export const scrollToSection = (id: string, behavior: ScrollBehavior = "smooth"): boolean => {
+  const element = document.getElementById(id);
+  if (!element) return false;
+  const offsetPosition = element.getBoundingClientRect().top + window.pageYOffset - HEADER_OFFSET;
+  window.scrollTo({ top: offsetPosition, behavior });
+  return true;
+};
+
+/** Scrolls to a section and adds it to the history, so Back returns to where the reader was. */
+export const navigateToSection = (id: string): boolean => {
+  if (window.location.hash !== `#${id}`) history.pushState(history.state, '', `#${id}`);
+  return scrollToSection(id);
+};
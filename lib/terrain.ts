@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { decode } from 'fast-png';
+
+// Elevation rasters for the 3D terrain view. Tiles ship their DEM as a
+// Terrarium PNG (the encoding of the public AWS / Mapzen terrain tiles):
+//
+//   meters = R * 256 + G + B / 256 - 32768
+//
+// Decoded with fast-png, like label masks, so no canvas color management can
+// touch the bytes.
+
+export interface ElevationGrid {
+  width: number;
+  height: number;
+  /** Meters above sea level, row-major, north row first. */
+  data: Float32Array;
+  min: number;
+  max: number;
+}
+
+export const decodeTerrarium = (buffer: ArrayBuffer): ElevationGrid => {
+  const png = decode(buffer);
+  const { width, height, channels, depth } = png;
+  if (channels < 3 || depth !== 8) {
+    throw new Error(`Expected an 8-bit RGB Terrarium PNG, got ${channels} channel(s) at ${depth} bits`);
+  }
+  const data = new Float32Array(width * height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const o = i * channels;
+    const meters = png.data[o] * 256 + png.data[o + 1] + png.data[o + 2] / 256 - 32768;
+    data[i] = meters;
+    if (meters < min) min = meters;
+    if (meters > max) max = meters;
+  }
+  return { width, height, data, min, max };
+};
+
+export const fetchElevation = async (url: string, signal?: AbortSignal): Promise<ElevationGrid> => {
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Failed to load elevation (${res.status})`);
+  return decodeTerrarium(await res.arrayBuffer());
+};
+
+/** Bilinear sample at fractional pixel coordinates, clamped to the raster. */
+const sample = ({ width, height, data }: ElevationGrid, x: number, y: number) => {
+  const x0 = Math.min(width - 1, Math.max(0, Math.floor(x)));
+  const y0 = Math.min(height - 1, Math.max(0, Math.floor(y)));
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = Math.min(1, Math.max(0, x - x0));
+  const fy = Math.min(1, Math.max(0, y - y0));
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Heights in meters above the tile's lowest point on a (segments + 1)² vertex
+ * grid, row-major from the north edge: the vertex order of a three.js
+ * PlaneGeometry. The DEM may be coarser or finer than the imagery; both span
+ * the same extent.
+ */
+export const terrainHeights = (grid: ElevationGrid, segments: number): Float32Array => {
+  const n = segments + 1;
+  const out = new Float32Array(n * n);
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      out[row * n + col] = sample(grid, (col / segments) * (grid.width - 1), (row / segments) * (grid.height - 1)) - grid.min;
+    }
+  }
+  return out;
+};
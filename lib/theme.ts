@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SchemaError, boolean, object, oneOf, optional } from '../data/schema';
+
+// Color themes: light or dark, each with a high-contrast variant. One palette
+// feeds everything that draws color: Tailwind reads the UI tokens through CSS
+// variables (see the config in index.html), while the SVG charts and three.js
+// scenes take hex values from `scene` directly.
+
+export type ColorMode = 'light' | 'dark';
+
+/** What the visitor chose. Anything left unset follows the operating system. */
+export interface ThemePreference {
+  mode: ColorMode | 'system';
+  highContrast?: boolean;
+}
+
+export interface ResolvedTheme {
+  mode: ColorMode;
+  highContrast: boolean;
+}
+
+/** Colors for canvases and WebGL, which can't read CSS variables. */
+export interface ScenePalette {
+  /** Header backdrop; also the hero fog so the scene fades into it. */
+  background: string;
+  sphere: string;
+  /** Satellite points, water grid and hero light. */
+  glow: string;
+  globe: string;
+  borders: string;
+  graticule: string;
+  point: string;
+  /** Selected points and the satellite footprint. */
+  highlight: string;
+}
+
+export interface Palette {
+  ocean: string;
+  oceanLight: string;
+  oceanDark: string;
+  oceanDeep: string;
+  /** Text and icons drawn on an ocean background. */
+  oceanFg: string;
+  /** Emphasis that must stand apart from ocean, e.g. a highlighted model. */
+  highlight: string;
+  scene: ScenePalette;
+}
+
+const SCENE: Record<ColorMode, ScenePalette> = {
+  light: {
+    background: '#0f172a', sphere: '#0284c7', glow: '#0ea5e9',
+    globe: '#0b1d33', borders: '#7dd3fc', graticule: '#38bdf8', point: '#0ea5e9', highlight: '#fbbf24',
+  },
+  dark: {
+    background: '#020617', sphere: '#0369a1', glow: '#0ea5e9',
+    globe: '#081426', borders: '#7dd3fc', graticule: '#38bdf8', point: '#0ea5e9', highlight: '#fbbf24',
+  },
+};
+
+export const PALETTES: Record<ColorMode, { normal: Palette; high: Palette }> = {
+  light: {
+    normal: {
+      ocean: '#0ea5e9', oceanLight: '#e0f2fe', oceanDark: '#0c4a6e', oceanDeep: '#020617', oceanFg: '#ffffff', highlight: '#f59e0b',
+      scene: SCENE.light,
+    },
+    // Ocean darkened to clear 4.5:1 against white, both as text and behind it.
+    high: {
+      ocean: '#0369a1', oceanLight: '#e0f2fe', oceanDark: '#082f49', oceanDeep: '#000000', oceanFg: '#ffffff', highlight: '#b45309',
+      scene: { ...SCENE.light, sphere: '#0ea5e9', glow: '#e0f2fe', borders: '#e0f2fe', graticule: '#7dd3fc', point: '#38bdf8' },
+    },
+  },
+  dark: {
+    normal: {
+      ocean: '#0ea5e9', oceanLight: '#e0f2fe', oceanDark: '#0c4a6e', oceanDeep: '#020617', oceanFg: '#ffffff', highlight: '#fbbf24',
+      scene: SCENE.dark,
+    },
+    // Light ocean on dark surfaces, so text drawn on it turns dark.
+    high: {
+      ocean: '#7dd3fc', oceanLight: '#f0f9ff', oceanDark: '#e0f2fe', oceanDeep: '#000000', oceanFg: '#020617', highlight: '#fde047',
+      scene: { ...SCENE.dark, background: '#000000', sphere: '#0ea5e9', glow: '#e0f2fe', borders: '#f0f9ff', graticule: '#7dd3fc', point: '#7dd3fc', highlight: '#fde047' },
+    },
+  },
+};
+
+export const paletteFor = ({ mode, highContrast }: ResolvedTheme): Palette => PALETTES[mode][highContrast ? 'high' : 'normal'];
+
+export const resolveTheme = (preference: ThemePreference, system: { dark: boolean; highContrast: boolean }): ResolvedTheme => ({
+  mode: preference.mode === 'system' ? (system.dark ? 'dark' : 'light') : preference.mode,
+  highContrast: preference.highContrast ?? system.highContrast,
+});
+
+export const THEME_STORAGE_KEY = 'uss-water.theme.v1';
+export const DEFAULT_THEME_PREFERENCE: ThemePreference = { mode: 'system' };
+
+const preferenceSchema = object({
+  mode: oneOf(['light', 'dark', 'system'] as const),
+  highContrast: optional(boolean()),
+});
+
+export const loadThemePreference = (storage: Storage = localStorage): ThemePreference => {
+  try {
+    const raw = storage.getItem(THEME_STORAGE_KEY);
+    return raw ? preferenceSchema(JSON.parse(raw), 'theme') : DEFAULT_THEME_PREFERENCE;
+  } catch (error) {
+    console.warn("Ignoring unreadable theme preference", error instanceof SchemaError ? error.message : error);
+    return DEFAULT_THEME_PREFERENCE;
+  }
+};
+
+export const saveThemePreference = (preference: ThemePreference, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(THEME_STORAGE_KEY, JSON.stringify(preference));
+  } catch (error) {
+    console.warn("Could not save theme preference", error);
+  }
+};
+
+/** "#0ea5e9" → "14 165 233", the form Tailwind's `<alpha-value>` colors expect. */
+const rgbChannels = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+};
+
+const CSS_TOKENS: Record<string, keyof Omit<Palette, 'scene'>> = {
+  '--color-ocean': 'ocean',
+  '--color-ocean-light': 'oceanLight',
+  '--color-ocean-dark': 'oceanDark',
+  '--color-ocean-deep': 'oceanDeep',
+  '--color-ocean-fg': 'oceanFg',
+  '--color-highlight': 'highlight',
+};
+
+/** Puts the theme on <html>: the `dark` class, `data-contrast` and the palette's CSS variables. */
+export const applyTheme = (theme: ResolvedTheme, root: HTMLElement = document.documentElement) => {
+  const palette = paletteFor(theme);
+  root.classList.toggle('dark', theme.mode === 'dark');
+  if (theme.highContrast) root.dataset.contrast = 'high';
+  else delete root.dataset.contrast;
+  root.style.colorScheme = theme.mode;
+  for (const [variable, token] of Object.entries(CSS_TOKENS)) root.style.setProperty(variable, rgbChannels(palette[token]));
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Large-scene tiling for U-Net+ inference, as in the "Patch Compression" and
+// "output" stages of the pipeline: the scene is cut into overlapping square
+// patches and the per-patch predictions are stitched back with a weighting
+// window that fades towards patch edges, so seams don't show.
+
+export interface TileOrigin {
+  x: number;
+  y: number;
+}
+
+const axisOrigins = (length: number, tile: number, stride: number) => {
+  if (length <= tile) return [0];
+  const origins: number[] = [];
+  for (let p = 0; p + tile < length; p += stride) origins.push(p);
+  // The last patch is aligned to the far edge instead of running past it.
+  origins.push(length - tile);
+  return origins;
+};
+
+/** Top-left corners of the patches covering a width × height scene. */
+export const planTiles = (width: number, height: number, tile: number, overlap: number): TileOrigin[] => {
+  if (overlap < 0 || overlap >= tile) throw new Error(`overlap must be in [0, ${tile})`);
+  const stride = tile - overlap;
+  const xs = axisOrigins(width, tile, stride);
+  const ys = axisOrigins(height, tile, stride);
+  return ys.flatMap(y => xs.map(x => ({ x, y })));
+};
+
+/**
+ * Separable blending window: 1 in the patch interior, ramping linearly to a
+ * small floor across the overlap band. The floor keeps scene borders (covered
+ * by a single patch) from dividing by zero.
+ */
+export const blendWindow = (tile: number, overlap: number): Float32Array => {
+  const ramp = new Float32Array(tile);
+  for (let i = 0; i < tile; i++) {
+    const edge = Math.min(i + 0.5, tile - i - 0.5);
+    ramp[i] = overlap > 0 ? Math.max(1e-3, Math.min(1, edge / overlap)) : 1;
+  }
+  const window = new Float32Array(tile * tile);
+  for (let y = 0; y < tile; y++) {
+    for (let x = 0; x < tile; x++) window[y * tile + x] = ramp[x] * ramp[y];
+  }
+  return window;
+};
+
+/**
+ * Copies one patch out of an RGBA scene into a planar CHW float tensor.
+ * Pixels beyond the scene edge (scenes smaller than a patch) repeat the edge.
+ */
+export const extractPatch = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  origin: TileOrigin,
+  tile: number,
+  mean: readonly [number, number, number],
+  std: readonly [number, number, number],
+): Float32Array => {
+  const plane = tile * tile;
+  const out = new Float32Array(3 * plane);
+  for (let y = 0; y < tile; y++) {
+    const sy = Math.min(origin.y + y, height - 1);
+    for (let x = 0; x < tile; x++) {
+      const sx = Math.min(origin.x + x, width - 1);
+      const src = (sy * width + sx) * 4;
+      const dst = y * tile + x;
+      for (let c = 0; c < 3; c++) out[c * plane + dst] = (rgba[src + c] / 255 - mean[c]) / std[c];
+    }
+  }
+  return out;
+};
+
+/** Adds a weighted patch prediction into the scene-sized accumulators. */
+export const accumulatePatch = (
+  sum: Float32Array,
+  weights: Float32Array,
+  width: number,
+  height: number,
+  origin: TileOrigin,
+  tile: number,
+  patch: Float32Array,
+  window: Float32Array,
+) => {
+  const rows = Math.min(tile, height - origin.y);
+  const cols = Math.min(tile, width - origin.x);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const w = window[y * tile + x];
+      const i = (origin.y + y) * width + origin.x + x;
+      sum[i] += patch[y * tile + x] * w;
+      weights[i] += w;
+    }
+  }
+};
+
+/** Final per-pixel probability once every patch has been accumulated. */
+export const resolveBlend = (sum: Float32Array, weights: Float32Array): Float32Array => {
+  const out = new Float32Array(sum.length);
+  for (let i = 0; i < sum.length; i++) out[i] = weights[i] > 0 ? sum[i] / weights[i] : 0;
+  return out;
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LocationFilter, WaterClassId } from '../types';
+import { WATER_CLASS_IDS } from '../data/content';
+import { CHART_ACCURACY_METRICS, CHART_COST_METRICS, ChartAxes, DEFAULT_CHART_AXES } from '../data/benchmarks';
+import { EMPTY_FILTER } from '../data/locations';
+import { SITE_SECTIONS } from '../data/sections';
+import { STATE_CODES } from '../data/states';
+import { DEFAULT_MASK_OPACITY } from './mask';
+
+// The interactive state a shared link reproduces, kept in the query string:
+//
+//   ?view=globe&state=IL&classes=lakes,rivers&loc=IL-004&x=vramGb&opacity=0.8#results
+//
+// The hash is the section, as an ordinary anchor. Only values that differ
+// from the defaults are written, and anything unrecognised is ignored on read
+// so an old or hand-edited link still opens the page.
+
+export type DatasetView = 'map' | 'globe';
+
+export interface ViewState {
+  datasetView: DatasetView;
+  filter: LocationFilter;
+  /** Selected sample location; an unknown id simply selects nothing. */
+  location: string | null;
+  axes: ChartAxes;
+  maskOpacity: number;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  datasetView: 'map',
+  filter: EMPTY_FILTER,
+  location: null,
+  axes: DEFAULT_CHART_AXES,
+  maskOpacity: DEFAULT_MASK_OPACITY,
+};
+
+const pick = <T extends string>(value: string | null, options: readonly T[]): T | undefined =>
+  options.find(o => o === value);
+
+export const parseViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const classes = (params.get('classes') ?? '').split(',').filter((c): c is WaterClassId => WATER_CLASS_IDS.includes(c as WaterClassId));
+  const opacity = Number(params.get('opacity'));
+  const location = params.get('loc');
+  return {
+    datasetView: pick(params.get('view'), ['map', 'globe'] as const) ?? DEFAULT_VIEW_STATE.datasetView,
+    filter: {
+      classes: [...new Set(classes)],
+      state: pick(params.get('state'), STATE_CODES) ?? null,
+    },
+    location: location && /^[\w-]{1,64}$/.test(location) ? location : null,
+    axes: {
+      x: pick(params.get('x'), CHART_COST_METRICS) ?? DEFAULT_CHART_AXES.x,
+      y: pick(params.get('y'), CHART_ACCURACY_METRICS) ?? DEFAULT_CHART_AXES.y,
+    },
+    maskOpacity: params.has('opacity') && opacity >= 0 && opacity <= 1 ? opacity : DEFAULT_VIEW_STATE.maskOpacity,
+  };
+};
+
+/** The query string for `state`, including the leading "?", or "" when everything is default. */
+export const serializeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  if (state.datasetView !== DEFAULT_VIEW_STATE.datasetView) params.set('view', state.datasetView);
+  if (state.filter.state) params.set('state', state.filter.state);
+  if (state.filter.classes.length) params.set('classes', state.filter.classes.join(','));
+  if (state.location) params.set('loc', state.location);
+  if (state.axes.x !== DEFAULT_CHART_AXES.x) params.set('x', state.axes.x);
+  if (state.axes.y !== DEFAULT_CHART_AXES.y) params.set('y', state.axes.y);
+  if (state.maskOpacity !== DEFAULT_VIEW_STATE.maskOpacity) params.set('opacity', String(state.maskOpacity));
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `?${query}` : '';
+};
+
+/** The section a location hash names, if it is one we render. */
+export const sectionFromHash = (hash: string): string | null => {
+  let id: string;
+  try {
+    id = decodeURIComponent(hash.replace(/^#/, ''));
+  } catch {
+    // A malformed escape ("#%", a truncated UTF-8 sequence) names no section.
+    return null;
+  }
+  return SITE_SECTIONS.some(s => s.id === id) ? id : null;
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { PROXY_LIMITS, trimHistory } from '../lib/chat/protocol';
+import { createMockProvider } from '../lib/chat/mock';
+import { ThreadMessage, toHistory } from '../lib/chat/threads';
+import { createProxyHandler } from './app';
+import { loadProxyConfig } from './config';
+import { createRateLimiter, createTokenBudget } from './limits';
+import { loadPaperRetriever } from './upstream';
+
+// `npm test`. The proxy's handler behind a real HTTP server, answering from
+// the offline mock, so nothing leaves the machine.
+
+const exchanges = (count: number, replyChars = 200): ThreadMessage[] =>
+  Array.from({ length: count }, (_, i) => [
+    { role: 'user' as const, text: `Question ${i}?` },
+    { role: 'model' as const, text: `Answer ${i}. `.padEnd(replyChars, 'x'), state: 'done' as const },
+  ]).flat();
+
+let url = '';
+let close = () => {};
+
+before(async () => {
+  const handler = createProxyHandler({
+    config: loadProxyConfig({}),
+    upstream: createMockProvider(0),
+    systemInstruction: 'Test instruction.',
+    retriever: loadPaperRetriever(),
+    rateLimiter: createRateLimiter(1000, 60_000),
+    budget: createTokenBudget(Infinity, Infinity),
+    log: { record: () => {} },
+  });
+  const server = createServer((req, res) => void handler(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/chat`;
+  close = () => server.close();
+});
+
+after(() => close());
+
+const ask = (body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+test('answers with a history over the message limit instead of rejecting it', async () => {
+  const history = exchanges(11).map(({ role, text }) => ({ role, text })).slice(0, 21);
+  assert.equal(history.length, PROXY_LIMITS.historyMessages + 1);
+  const res = await ask({ history, message: 'What is the F1 score?' });
+  assert.equal(res.status, 200);
+  assert.match(await res.text(), /"done":true/);
+});
+
+test('answers when a past reply is over the per-message limit', async () => {
+  const history = [{ role: 'user', text: 'Tell me everything.' }, { role: 'model', text: 'x'.repeat(PROXY_LIMITS.historyMessageChars + 1) }];
+  const res = await ask({ history, message: 'And briefly?' });
+  assert.equal(res.status, 200);
+});
+
+test('still rejects an over-long question', async () => {
+  const res = await ask({ history: [], message: 'x'.repeat(PROXY_LIMITS.messageChars + 1) });
+  assert.equal(res.status, 400);
+});
+
+test('trimHistory keeps the most recent turns, starting with a user turn', () => {
+  const history = exchanges(11).map(({ role, text }) => ({ role, text })).slice(1);
+  assert.equal(history.length, PROXY_LIMITS.historyMessages + 1);
+  const trimmed = trimHistory(history);
+  assert.ok(trimmed.length <= PROXY_LIMITS.historyMessages);
+  assert.equal(trimmed[0].role, 'user');
+  assert.deepEqual(trimmed[trimmed.length - 1], history[history.length - 1]);
+});
+
+test('a long saved thread fits the request body', async () => {
+  const history = toHistory(exchanges(30, PROXY_LIMITS.historyMessageChars * 2));
+  assert.ok(history.every(m => m.text.length <= PROXY_LIMITS.historyMessageChars));
+  const body = JSON.stringify({ history, message: 'x'.repeat(PROXY_LIMITS.messageChars) });
+  assert.ok(Buffer.byteLength(body) < PROXY_LIMITS.bodyBytes);
+  const res = await ask({ history, message: 'One more?' });
+  assert.equal(res.status, 200);
+});
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { SchemaError } from '../data/schema';
+import { PROXY_LIMITS, ProxyEvent, parseProxyRequest, trimHistory } from '../lib/chat/protocol';
+import { formatUserTurn } from '../lib/chat/prompt';
+import type { ChatProvider } from '../lib/chat/types';
+import type { PassageRetriever } from '../lib/retrieval/retriever';
+import type { ProxyConfig } from './config';
+import { IMAGE_TOKENS, RateLimiter, TokenBudget, estimateTokens } from './limits';
+import type { QuestionLogEntry } from './questionLog';
+
+// The proxy's request handler:
+//
+//   GET  /api/health  upstream label, for uptime checks
+//   POST /api/chat    see lib/chat/protocol
+//
+// Each chat request passes the rate limit, the size limits and the token
+// budget, in that order, before anything is sent upstream.
+
+export interface ProxyDeps {
+  config: ProxyConfig;
+  upstream: ChatProvider;
+  systemInstruction: string;
+  retriever: PassageRetriever;
+  rateLimiter: RateLimiter;
+  budget: TokenBudget;
+  log: { record(entry: QuestionLogEntry): void };
+}
+
+class RequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) =>
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+
+const readBody = async (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) throw new RequestError(413, 'Request is too large.');
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) throw new RequestError(413, 'Request is too large.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+export const clientKeyOf = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+export const createProxyHandler = (deps: ProxyDeps) => {
+  const { config, upstream, systemInstruction, retriever, rateLimiter, budget, log } = deps;
+
+  const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+    const clientKey = clientKeyOf(req, config.trustProxy);
+    const started = Date.now();
+
+    const limited = rateLimiter.take(clientKey);
+    if (!limited.ok) {
+      log.record({ clientKey, question: '', historyMessages: 0, status: 'rejected', reason: 'rate limit' });
+      sendJson(res, 429, { error: `Too many questions. Try again in ${limited.retryAfterS}s.` }, { 'Retry-After': String(limited.retryAfterS) });
+      return;
+    }
+
+    let request;
+    try {
+      const parsed = parseProxyRequest(JSON.parse(await readBody(req, PROXY_LIMITS.bodyBytes)), '');
+      // Older clients send whole threads; answer with the recent turns rather than failing.
+      request = { ...parsed, history: trimHistory(parsed.history) };
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : 400;
+      const message = error instanceof RequestError ? error.message
+        : error instanceof SchemaError ? `Invalid request: ${error.message}`
+        : 'Invalid request: body is not JSON.';
+      log.record({ clientKey, question: '', historyMessages: 0, status: 'rejected', reason: message });
+      sendJson(res, status, { error: message });
+      return;
+    }
+
+    const passages = retriever.retrieve(request.message);
+    const chatRequest = { ...request, passages };
+    const images = request.images?.length ?? 0;
+    const promptTokens = estimateTokens(systemInstruction + request.history.map(m => m.text).join('') + formatUserTurn(chatRequest))
+      + images * IMAGE_TOKENS;
+    const entry = { clientKey, question: request.message, historyMessages: request.history.length, images, promptTokens };
+    if (!budget.allows(clientKey, promptTokens)) {
+      log.record({ ...entry, status: 'rejected', reason: 'token budget' });
+      sendJson(res, 429, { error: "Today's question budget is used up. Please come back tomorrow." });
+      return;
+    }
+    budget.spend(clientKey, promptTokens);
+
+    // Stop the upstream request when the visitor presses Stop or leaves.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const send = (event: ProxyEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' });
+    let reply = '';
+    try {
+      for await (const delta of upstream.stream(chatRequest, controller.signal)) {
+        reply += delta;
+        send({ delta });
+      }
+      send({ done: true });
+      log.record({ ...entry, status: 'answered', replyTokens: estimateTokens(reply), durationMs: Date.now() - started });
+    } catch (error) {
+      const stopped = controller.signal.aborted;
+      if (!stopped) {
+        console.error("Upstream error", error);
+        // Upstream messages can carry provider details; the visitor gets a generic one.
+        send({ error: 'The assistant service failed. Please try again.' });
+      }
+      log.record({ ...entry, status: stopped ? 'stopped' : 'failed', replyTokens: estimateTokens(reply), durationMs: Date.now() - started });
+    } finally {
+      budget.spend(clientKey, estimateTokens(reply));
+      res.end();
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && config.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    const path = new URL(req.url ?? '/', 'http://proxy').pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '86400',
+      }).end();
+    } else if (path === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { ok: true, upstream: upstream.label });
+    } else if (path === '/api/chat' && req.method === 'POST') {
+      await handleChat(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found.' });
+    }
+  };
+};
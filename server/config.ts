@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Proxy settings, read from the environment (see .env.example). Unlike the
+// VITE_* variables these are never bundled into the site.
+
+export type UpstreamId = 'gemini' | 'openai' | 'stub';
+
+export interface ProxyConfig {
+  host: string;
+  port: number;
+  upstream: UpstreamId;
+  geminiApiKey?: string;
+  geminiModel: string;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  openaiApiKey?: string;
+  /** The OpenAI-compatible model accepts images. */
+  openaiVision: boolean;
+  /** Origins allowed to call the proxy cross-origin; empty means same-origin only. */
+  allowedOrigins: string[];
+  /** Take the client address from X-Forwarded-For (only behind a trusted reverse proxy). */
+  trustProxy: boolean;
+  requestsPerMinute: number;
+  /** Estimated tokens per client address per UTC day. */
+  tokensPerClientPerDay: number;
+  /** Estimated tokens across all clients per UTC day. */
+  tokensPerDay: number;
+  /** Append question logs here as JSON lines; stdout when unset. */
+  logFile?: string;
+}
+
+const UPSTREAMS: readonly UpstreamId[] = ['gemini', 'openai', 'stub'];
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const intFrom = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const raw = env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new ConfigError(`${name} must be a non-negative integer, got "${raw}"`);
+  return value;
+};
+
+export const loadProxyConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const requested = env.CHAT_UPSTREAM?.trim().toLowerCase() || undefined;
+  if (requested && !UPSTREAMS.includes(requested as UpstreamId)) {
+    throw new ConfigError(`Unknown CHAT_UPSTREAM "${env.CHAT_UPSTREAM}". Use one of ${UPSTREAMS.join(', ')}.`);
+  }
+  const upstream = (requested ?? (env.GEMINI_API_KEY ? 'gemini' : 'stub')) as UpstreamId;
+  if (upstream === 'gemini' && !env.GEMINI_API_KEY) throw new ConfigError('CHAT_UPSTREAM=gemini needs GEMINI_API_KEY.');
+  if (upstream === 'openai' && (!env.OPENAI_BASE_URL || !env.OPENAI_MODEL)) {
+    throw new ConfigError('CHAT_UPSTREAM=openai needs OPENAI_BASE_URL and OPENAI_MODEL.');
+  }
+
+  return {
+    host: env.HOST || '127.0.0.1',
+    port: intFrom(env, 'PORT', 8787),
+    upstream,
+    geminiApiKey: env.GEMINI_API_KEY,
+    geminiModel: env.GEMINI_MODEL || 'gemini-2.5-flash',
+    openaiBaseUrl: env.OPENAI_BASE_URL,
+    openaiModel: env.OPENAI_MODEL,
+    openaiApiKey: env.OPENAI_API_KEY,
+    openaiVision: env.OPENAI_VISION === '1' || env.OPENAI_VISION === 'true',
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+    trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+    requestsPerMinute: intFrom(env, 'RATE_LIMIT_PER_MINUTE', 10),
+    tokensPerClientPerDay: intFrom(env, 'TOKEN_BUDGET_PER_CLIENT', 50_000),
+    tokensPerDay: intFrom(env, 'TOKEN_BUDGET_DAILY', 2_000_000),
+    logFile: env.CHAT_LOG_FILE || undefined,
+  };
+};
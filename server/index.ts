@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer } from 'node:http';
+import { buildSystemInstruction } from '../data/systemInstruction';
+import { createProxyHandler } from './app';
+import { loadProxyConfig } from './config';
+import { createRateLimiter, createTokenBudget } from './limits';
+import { createQuestionLog } from './questionLog';
+import { connectUpstream, loadPaperRetriever } from './upstream';
+
+// Chat proxy entry point: `npm run proxy`. Holds the model key so the static
+// site never ships one. With CHAT_UPSTREAM=stub (the default without a key) it
+// starts a local stand-in model and needs no network.
+
+const config = loadProxyConfig();
+const systemInstruction = buildSystemInstruction();
+const { provider: upstream } = await connectUpstream(config, systemInstruction);
+const rateLimiter = createRateLimiter(config.requestsPerMinute, 60_000);
+setInterval(() => rateLimiter.sweep(), 5 * 60_000).unref();
+
+const handler = createProxyHandler({
+  config,
+  upstream,
+  systemInstruction,
+  retriever: loadPaperRetriever(),
+  rateLimiter,
+  budget: createTokenBudget(config.tokensPerClientPerDay, config.tokensPerDay),
+  log: createQuestionLog(config.logFile),
+});
+
+createServer((req, res) => {
+  handler(req, res).catch(error => {
+    console.error("Unhandled proxy error", error);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Internal error.' }));
+    else res.end();
+  });
+}).listen(config.port, config.host, () => {
+  console.error(`Chat proxy on http://${config.host}:${config.port}/api/chat (upstream: ${upstream.label})`);
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Per-client request rate and daily token budgets, kept in memory. That is
+// enough for a single proxy instance; state resets on restart.
+
+/** Rough token count (about four characters per token for English text). */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Rough cost of one attached image (downscaled to at most 1024 px) for current multimodal models. */
+export const IMAGE_TOKENS = 300;
+
+export interface RateLimiter {
+  /** Records a request; `retryAfterS` is set when it is over the limit. */
+  take(key: string): { ok: true } | { ok: false; retryAfterS: number };
+  /** Drops clients with no recent requests. */
+  sweep(): void;
+}
+
+/** Sliding window: at most `limit` requests per `windowMs` per key. */
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  const recent = (key: string, t: number) => (hits.get(key) ?? []).filter(h => h > t - windowMs);
+
+  return {
+    take(key) {
+      const t = now();
+      const times = recent(key, t);
+      if (times.length >= limit) {
+        hits.set(key, times);
+        return { ok: false, retryAfterS: Math.max(1, Math.ceil((times[0] + windowMs - t) / 1000)) };
+      }
+      hits.set(key, [...times, t]);
+      return { ok: true };
+    },
+    sweep() {
+      const t = now();
+      for (const key of hits.keys()) {
+        const times = recent(key, t);
+        if (times.length) hits.set(key, times);
+        else hits.delete(key);
+      }
+    },
+  };
+};
+
+export interface TokenBudget {
+  /** Whether `tokens` more fit in both the client's and the global budget for today. */
+  allows(key: string, tokens: number): boolean;
+  spend(key: string, tokens: number): void;
+}
+
+/** Daily budgets in estimated tokens, reset at midnight UTC. */
+export const createTokenBudget = (perClient: number, total: number, now: () => number = Date.now): TokenBudget => {
+  let day = '';
+  let spentTotal = 0;
+  let spent = new Map<string, number>();
+  const roll = () => {
+    const today = new Date(now()).toISOString().slice(0, 10);
+    if (today !== day) {
+      day = today;
+      spentTotal = 0;
+      spent = new Map();
+    }
+  };
+
+  return {
+    allows(key, tokens) {
+      roll();
+      return (spent.get(key) ?? 0) + tokens <= perClient && spentTotal + tokens <= total;
+    },
+    spend(key, tokens) {
+      roll();
+      spent.set(key, (spent.get(key) ?? 0) + tokens);
+      spentTotal += tokens;
+    },
+  };
+};
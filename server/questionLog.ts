@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash, randomBytes } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+
+// Anonymous question log, one JSON object per line. Client addresses are never
+// written: each is replaced by a hash salted with a random value that lives
+// only in memory and changes every UTC day, so a visitor's questions can be
+// grouped within a day but not traced back or linked across days. Email
+// addresses and long digit runs (phone numbers, IDs) are masked in the text.
+
+export interface QuestionLogEntry {
+  clientKey: string;
+  question: string;
+  historyMessages: number;
+  /** Number of attached images; the images themselves are never logged. */
+  images?: number;
+  status: 'answered' | 'stopped' | 'failed' | 'rejected';
+  /** Why a request was rejected before reaching the model. */
+  reason?: string;
+  promptTokens?: number;
+  replyTokens?: number;
+  durationMs?: number;
+}
+
+export const redactQuestion = (text: string): string =>
+  text
+    .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '[email]')
+    .replace(/\+?\d[\d\s().-]{6,}\d/g, '[number]');
+
+export const createQuestionLog = (file?: string, now: () => number = Date.now) => {
+  let day = '';
+  let salt = randomBytes(16);
+  const visitor = (clientKey: string, today: string) => {
+    if (today !== day) {
+      day = today;
+      salt = randomBytes(16);
+    }
+    return createHash('sha256').update(salt).update(clientKey).digest('hex').slice(0, 12);
+  };
+
+  return {
+    record({ clientKey, question, ...rest }: QuestionLogEntry) {
+      const time = new Date(now()).toISOString();
+      const line = JSON.stringify({ time, visitor: visitor(clientKey, time.slice(0, 10)), question: redactQuestion(question), ...rest });
+      if (!file) {
+        console.log(line);
+        return;
+      }
+      appendFile(file, `${line}\n`).catch(error => console.error("Could not write question log", error));
+    },
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mockImageNote, mockReply } from '../lib/chat/mock';
+
+// A local stand-in for the model: speaks the OpenAI chat-completions streaming
+// API and answers with the offline mock's canned replies. The proxy talks to
+// it over real HTTP, so the whole path can be exercised without network
+// access or a key.
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url' };
+
+interface CompletionRequest {
+  messages?: { role: string; content: string | ContentPart[] }[];
+}
+
+// The proxy sends "PAPER EXCERPTS ... QUESTION:\n<question>"; see lib/chat/prompt.
+const questionOf = (content: string) => content.split('QUESTION:\n').pop() ?? content;
+
+export const startStubUpstream = (port = 0): Promise<{ baseUrl: string; close: () => void }> =>
+  new Promise(resolve => {
+    const server = createServer(async (req, res) => {
+      if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+        res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'Not found' } }));
+        return;
+      }
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      const { messages = [] } = JSON.parse(raw) as CompletionRequest;
+      const content = messages.filter(m => m.role === 'user').pop()?.content ?? '';
+      const parts = typeof content === 'string' ? [{ type: 'text' as const, text: content }] : content;
+      const text = parts.map(p => (p.type === 'text' ? p.text : '')).join('');
+      const images = parts.filter(p => p.type === 'image_url').length;
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      const reply = (images ? mockImageNote(images) : '') + mockReply(questionOf(text));
+      for (const word of reply.match(/\S+\s*/g) ?? []) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        await new Promise(r => setTimeout(r, 20));
+      }
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`);
+      res.end('data: [DONE]\n\n');
+    });
+    server.listen(port, '127.0.0.1', () => {
+      const { port: actual } = server.address() as AddressInfo;
+      resolve({ baseUrl: `http://127.0.0.1:${actual}/v1`, close: () => server.close() });
+    });
+  });
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readFileSync } from 'node:fs';
+import { createGeminiProvider } from '../lib/chat/gemini';
+import { createOpenAICompatibleProvider } from '../lib/chat/openai';
+import type { ChatProvider } from '../lib/chat/types';
+import { PassageRetriever, createPassageRetriever } from '../lib/retrieval/retriever';
+import type { ProxyConfig } from './config';
+import { startStubUpstream } from './stubUpstream';
+
+// The model behind the proxy, and the paper it retrieves from. Shared with the
+// evaluation harness (eval/), which runs the same upstreams without the proxy.
+
+const PAPER_FILE = new URL('../data/paper/uss-water.md', import.meta.url);
+
+export const loadPaperRetriever = (): PassageRetriever => createPassageRetriever(readFileSync(PAPER_FILE, 'utf8'));
+
+/** `close` stops the local stub, if one was started. */
+export const connectUpstream = async (config: ProxyConfig, systemInstruction: string): Promise<{ provider: ChatProvider; close: () => void }> => {
+  switch (config.upstream) {
+    case 'gemini':
+      return {
+        provider: createGeminiProvider({ apiKey: config.geminiApiKey!, model: config.geminiModel, systemInstruction }),
+        close: () => {},
+      };
+    case 'openai':
+      return {
+        provider: createOpenAICompatibleProvider({
+          baseUrl: config.openaiBaseUrl!,
+          model: config.openaiModel!,
+          apiKey: config.openaiApiKey,
+          vision: config.openaiVision,
+          systemInstruction,
+        }),
+        close: () => {},
+      };
+    case 'stub': {
+      const stub = await startStubUpstream();
+      return {
+        provider: { ...createOpenAICompatibleProvider({ baseUrl: stub.baseUrl, model: 'stub', vision: true, systemInstruction }), label: 'Local stub' },
+        close: stub.close,
+      };
+    }
+  }
+};
@@ -17,4 +17,161 @@ export interface Laureate {
   image: string; // placeholder url
   role: string;
   desc: string;
-}
\ No newline at end of file
+}
+
+// --- SITE CONTENT ---
+// Shapes of the typed content module in `data/content.ts`. Every figure,
+// stat and fact rendered on the site (and fed to the assistant) comes from here.
+
+export type WaterClassId =
+  | 'rivers'
+  | 'lakes'
+  | 'ponds'
+  | 'reservoirs'
+  | 'wetlands'
+  | 'creeks'
+  | 'coastal';
+
+export interface WaterClass {
+  id: WaterClassId;
+  label: string;
+  /** Pixel value of this class in the label masks (0 is background). */
+  maskValue: number;
+  /** Overlay color, as #rrggbb. */
+  color: string;
+}
+
+export interface PaperMetadata {
+  title: string;
+  shortTitle: string;
+  journal: string;
+  year: number;
+  institution: string;
+  repositoryUrl: string;
+  dataLicense: string;
+}
+
+export interface DatasetStats {
+  images: number;
+  labeledPixels: number;
+  resolutionM: number;
+  locations: number;
+  states: number;
+  imagerySource: string;
+  classes: WaterClass[];
+  preprocessing: string[];
+}
+
+export interface ModelFacts {
+  name: string;
+  patchSize: number;
+  parameterReductionPct: number;
+  exampleScene: { width: number; height: number };
+}
+
+export interface ModelBenchmark {
+  id: string;
+  name: string;
+  f1: number;
+  /** Only set where the source reports it. */
+  iou?: number;
+  fps: number;
+  vramGb?: number;
+  paramsM?: number;
+  isOurs: boolean;
+  summary: string;
+}
+
+export interface BenchmarkSetup {
+  hardware: string;
+  source: string;
+  models: ModelBenchmark[];
+}
+
+export interface CaseStudy {
+  id: string;
+  title: string;
+  location: string;
+  description: string;
+  iou: number;
+  f1: number;
+}
+
+export interface Author {
+  name: string;
+  role: 'Lead Author' | 'Co-Author' | 'Corresponding Author';
+  affiliation: string;
+}
+
+export interface Limitation {
+  title: string;
+  detail: string;
+}
+
+export interface SiteContent {
+  paper: PaperMetadata;
+  dataset: DatasetStats;
+  model: ModelFacts;
+  benchmarks: BenchmarkSetup;
+  caseStudies: CaseStudy[];
+  authors: Author[];
+  limitations: Limitation[];
+}
+
+// --- DATASET LOCATIONS ---
+// One entry per sampled location in `public/data/locations.json`.
+
+export interface SampleLocation {
+  id: string;
+  state: string; // USPS code, e.g. "IL"
+  lat: number;
+  lon: number;
+  images: number;
+  pixels: number;
+  /** Share of the location's labeled pixels belonging to each water class (0-1). */
+  classMix: Record<WaterClassId, number>;
+}
+
+export interface LocationManifest {
+  version: number;
+  /** Synthetic stand-in locations (matching only the published totals) until the real export ships. */
+  placeholder?: boolean;
+  locations: SampleLocation[];
+}
+
+/** Active dataset filters. Empty `classes` means every class; null `state` means every state. */
+export interface LocationFilter {
+  classes: WaterClassId[];
+  state: string | null;
+}
+
+// --- LEADERBOARD ---
+// Results on USS-Water from this paper plus external submissions loaded from
+// `public/data/leaderboard.v1.json`.
+
+/** "paper": published in a peer-reviewed paper. "community": submitted without one. */
+export type LeaderboardSource = 'paper' | 'community';
+
+export interface LeaderboardEntry {
+  id: string;
+  model: string;
+  source: LeaderboardSource;
+  /** Who reported the numbers, e.g. "Scientific Reports 2024" or a lab name. */
+  reportedBy: string;
+  /** Paper or code link. Required for paper-reported entries. */
+  url?: string;
+  f1: number;
+  iou?: number;
+  fps: number;
+  /** Hardware the FPS was measured on, as reported. */
+  hardware: string;
+  vramGb?: number;
+  /** YYYY-MM-DD */
+  submitted?: string;
+  isOurs: boolean;
+}
+
+export interface LeaderboardManifest {
+  version: 1;
+  entries: LeaderboardEntry[];
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** proxy | mock | none */
+  readonly VITE_CHAT_PROVIDER?: string;
+  /** The chat proxy's endpoint, e.g. https://chat.example.org/api/chat */
+  readonly VITE_CHAT_PROXY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -4,6 +4,14 @@ import react from '@vitejs/plugin-react';
 export default defineConfig({
   plugins: [react()],
   base: './', // Ensures assets are loaded correctly on GitHub Pages
+  server: {
+    // The chat proxy (`npm run proxy`), so the dev site can use it same-origin.
+    proxy: { '/api': 'http://127.0.0.1:8787' },
+  },
+  worker: {
+    // The inference worker imports onnxruntime-web as an ES module.
+    format: 'es',
+  },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
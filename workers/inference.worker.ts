@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/// <reference lib="webworker" />
+
+import * as ort from 'onnxruntime-web/wasm';
+import wasmUrl from 'onnxruntime-web/ort-wasm-simd-threaded.wasm?url';
+import wasmModuleUrl from 'onnxruntime-web/ort-wasm-simd-threaded.mjs?url';
+import { accumulatePatch, blendWindow, extractPatch, planTiles, resolveBlend } from '../lib/tiling';
+import { InferenceConfig, InferenceRequest, InferenceResponse, isMissingModel } from './inferenceProtocol';
+
+// Runs U-Net+ on CPU through the onnxruntime WASM backend, off the main thread.
+// GitHub Pages can't serve the COOP/COEP headers multi-threaded WASM needs,
+// so the runtime is pinned to a single thread.
+
+declare const self: DedicatedWorkerGlobalScope;
+
+ort.env.wasm.numThreads = 1;
+ort.env.wasm.wasmPaths = { wasm: wasmUrl, mjs: wasmModuleUrl };
+
+const sessions = new Map<string, Promise<ort.InferenceSession>>();
+// Runs queued or in progress, and those of them asked to stop. Both only ever
+// hold ids that haven't finished yet.
+const pending = new Set<number>();
+const cancelled = new Set<number>();
+// Runs execute one after another: a new one starts only once the previous
+// (usually just cancelled) run has returned from its last session.run.
+let queue: Promise<void> = Promise.resolve();
+
+class MissingModelError extends Error {
+  constructor(url: string) {
+    super(`No model at ${url}`);
+    this.name = 'MissingModelError';
+  }
+}
+
+const post = (message: InferenceResponse, transfer: Transferable[] = []) => self.postMessage(message, transfer);
+
+const loadSession = async (url: string) => {
+  const res = await fetch(url);
+  if (isMissingModel(res)) throw new MissingModelError(url);
+  if (!res.ok) throw new Error(`Failed to load the model (${res.status})`);
+  return ort.InferenceSession.create(new Uint8Array(await res.arrayBuffer()), { executionProviders: ['wasm'] });
+};
+
+const getSession = (url: string) => {
+  let session = sessions.get(url);
+  if (!session) {
+    session = loadSession(url);
+    session.catch(() => sessions.delete(url));
+    sessions.set(url, session);
+  }
+  return session;
+};
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/** Turns a [1, C, tile, tile] logit tensor into per-pixel water probability. */
+const waterProbability = (output: ort.Tensor, tile: number): Float32Array => {
+  const logits = output.data as Float32Array;
+  const plane = tile * tile;
+  const channels = logits.length / plane;
+  const out = new Float32Array(plane);
+  if (channels === 1) {
+    for (let i = 0; i < plane; i++) out[i] = sigmoid(logits[i]);
+    return out;
+  }
+  for (let i = 0; i < plane; i++) {
+    let max = -Infinity;
+    for (let c = 0; c < channels; c++) max = Math.max(max, logits[c * plane + i]);
+    let total = 0;
+    for (let c = 0; c < channels; c++) total += Math.exp(logits[c * plane + i] - max);
+    out[i] = 1 - Math.exp(logits[i] - max) / total;
+  }
+  return out;
+};
+
+const run = async (id: number, config: InferenceConfig, width: number, height: number, rgba: Uint8ClampedArray) => {
+  if (cancelled.has(id)) {
+    post({ type: 'cancelled', id });
+    return;
+  }
+  const started = performance.now();
+  post({ type: 'status', id, message: 'Loading model…' });
+  const session = await getSession(config.modelUrl);
+
+  const tiles = planTiles(width, height, config.tile, config.overlap);
+  const window = blendWindow(config.tile, config.overlap);
+  const sum = new Float32Array(width * height);
+  const weights = new Float32Array(width * height);
+  const inputName = session.inputNames[0];
+  const outputName = session.outputNames[0];
+
+  post({ type: 'progress', id, done: 0, total: tiles.length });
+  for (let i = 0; i < tiles.length; i++) {
+    // Each await yields to the message loop, so a cancel request lands here.
+    if (cancelled.has(id)) {
+      post({ type: 'cancelled', id });
+      return;
+    }
+    const patch = extractPatch(rgba, width, height, tiles[i], config.tile, config.mean, config.std);
+    const input = new ort.Tensor('float32', patch, [1, 3, config.tile, config.tile]);
+    const result = await session.run({ [inputName]: input });
+    accumulatePatch(sum, weights, width, height, tiles[i], config.tile, waterProbability(result[outputName], config.tile), window);
+    post({ type: 'progress', id, done: i + 1, total: tiles.length });
+  }
+
+  const probabilities = resolveBlend(sum, weights);
+  post({ type: 'result', id, width, height, probabilities, elapsedMs: performance.now() - started }, [probabilities.buffer]);
+};
+
+self.onmessage = (e: MessageEvent<InferenceRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    if (pending.has(msg.id)) cancelled.add(msg.id);
+    return;
+  }
+  const { id } = msg;
+  pending.add(id);
+  queue = queue
+    .then(() => run(id, msg.config, msg.width, msg.height, msg.rgba))
+    .catch((error: unknown) => {
+      if (error instanceof MissingModelError) post({ type: 'missing-model', id });
+      else post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    })
+    .finally(() => {
+      pending.delete(id);
+      cancelled.delete(id);
+    });
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CONTENT } from '../data/content';
+
+// Messages exchanged between the "Try the model" panel and the inference worker.
+
+export interface InferenceConfig {
+  modelUrl: string;
+  tile: number;
+  overlap: number;
+  /** Per-channel normalization applied after scaling RGB to 0-1. */
+  mean: [number, number, number];
+  std: [number, number, number];
+  /** Probability above which a pixel is reported as water. */
+  threshold: number;
+}
+
+/**
+ * Expected export: one float32 NCHW input of shape [1, 3, tile, tile] and one
+ * output of shape [1, C, tile, tile] holding logits. C = 1 is read as a water
+ * logit; C > 1 as class logits with channel 0 = background.
+ */
+export const DEFAULT_INFERENCE_CONFIG: InferenceConfig = {
+  modelUrl: `${import.meta.env.BASE_URL}models/unet-plus.onnx`,
+  tile: CONTENT.model.patchSize,
+  overlap: 64,
+  mean: [0.485, 0.456, 0.406],
+  std: [0.229, 0.224, 0.225],
+  threshold: 0.5,
+};
+
+export type InferenceRequest =
+  | {
+      type: 'run';
+      id: number;
+      config: InferenceConfig;
+      width: number;
+      height: number;
+      rgba: Uint8ClampedArray;
+    }
+  | { type: 'cancel'; id: number };
+
+export type InferenceResponse =
+  | { type: 'status'; id: number; message: string }
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'result'; id: number; width: number; height: number; probabilities: Float32Array; elapsedMs: number }
+  | { type: 'cancelled'; id: number }
+  /** No model file is deployed at `config.modelUrl`. */
+  | { type: 'missing-model'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Whether a response for the model URL means no model is deployed. Dev and
+ * preview servers answer unknown paths with the app's index.html, so an HTML
+ * page counts as missing as well as a 404.
+ */
+export const isMissingModel = (res: Response) =>
+  res.status === 404 || (res.ok && (res.headers.get('Content-Type') ?? '').includes('text/html'));